@@ -12,14 +12,21 @@ import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 
 // Import routes
-import documentFetcherRoutes from './routes/documentFetcher.js';
-import fileConverterRoutes from './routes/fileConverter.js';
-import qrCodeRoutes from './routes/qrCode.js';
-import passwordGeneratorRoutes from './routes/passwordGenerator.js';
-import imageResizerRoutes from './routes/imageResizer.js';
+import documentFetcherRoutes, { setSocketIO as setDocumentFetcherSocketIO } from './routes/documentFetcher.js';
+import fileConverterRoutes, { setSocketIO as setFileConverterSocketIO } from './routes/fileConverter.js';
+import qrCodeRoutes, { setSocketIO as setQRCodeSocketIO } from './routes/qrCode.js';
+import passwordGeneratorRoutes, { setSocketIO as setPasswordGeneratorSocketIO } from './routes/passwordGenerator.js';
+import imageResizerRoutes, { setSocketIO as setImageResizerSocketIO } from './routes/imageResizer.js';
+import jobRoutes from './routes/jobs.js';
+import scheduleRoutes from './routes/schedules.js';
+
+// Import services
+import { initJobStore, closeJobStore } from './services/jobRegistry.js';
+import { getQueueStats, drainJobQueue, resumeInterruptedJobs } from './services/jobQueue.js';
+import { loadSchedules, flushSchedules, setSocketIO as setScheduleSocketIO } from './services/scheduleService.js';
 
 // Import socket handlers
-import { setupSocketHandlers } from './socket/socketHandlers.js';
+import { setupSocketHandlers, SocketServer } from './socket/socketHandlers.js';
 
 // Load environment variables
 dotenv.config();
@@ -55,7 +62,7 @@ const corsOrigins = process.env.CORS_ORIGIN
   : ["http://localhost:5173", "https://okiedokie-utility.web.app"];
 
 // Socket.IO configuration
-const io = new Server(server, {
+const io: SocketServer = new Server(server, {
   cors: {
     origin: corsOrigins,
     methods: ["GET", "POST"],
@@ -94,13 +101,15 @@ app.use(cors({
   origin: corsOrigins,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Job-Token', 'X-Schedule-Token', 'Last-Event-ID']
 }));
 
 // Compression middleware
 app.use(compression());
 
-// Logging middleware
+// Logging middleware. Download and event links carry access tokens as
+// `?token=`, so the logged URL has them blanked out.
+morgan.token('url', (req: express.Request) => (req.originalUrl || req.url).replace(/([?&]token=)[^&#]*/gi, '$1[redacted]'));
 app.use(morgan('combined'));
 
 // Body parsing middleware
@@ -132,26 +141,18 @@ app.get('/api/health', (req, res) => {
     services: {
       server: 'running',
       socket: io.engine.clientsCount > 0 ? 'connected' : 'disconnected'
-    }
+    },
+    queue: getQueueStats()
   });
 });
 
 // Initialize Socket.IO for all routes
-if ('setSocketIO' in documentFetcherRoutes) {
-  (documentFetcherRoutes as any).setSocketIO(io);
-}
-if ('setSocketIO' in fileConverterRoutes) {
-  (fileConverterRoutes as any).setSocketIO(io);
-}
-if ('setSocketIO' in qrCodeRoutes) {
-  (qrCodeRoutes as any).setSocketIO(io);
-}
-if ('setSocketIO' in passwordGeneratorRoutes) {
-  (passwordGeneratorRoutes as any).setSocketIO(io);
-}
-if ('setSocketIO' in imageResizerRoutes) {
-  (imageResizerRoutes as any).setSocketIO(io);
-}
+setDocumentFetcherSocketIO(io);
+setFileConverterSocketIO(io);
+setQRCodeSocketIO(io);
+setPasswordGeneratorSocketIO(io);
+setImageResizerSocketIO(io);
+setScheduleSocketIO(io);
 
 // API Routes
 app.use('/api/document-fetcher', documentFetcherRoutes);
@@ -159,6 +160,8 @@ app.use('/api/file-converter', fileConverterRoutes);
 app.use('/api/qr-code', qrCodeRoutes);
 app.use('/api/password-generator', passwordGeneratorRoutes);
 app.use('/api/image-resizer', imageResizerRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/schedules', scheduleRoutes);
 
 // Serve React app in production
 if (process.env.NODE_ENV === 'production') {
@@ -179,7 +182,9 @@ if (process.env.NODE_ENV === 'production') {
         '/api/file-converter',
         '/api/qr-code',
         '/api/password-generator',
-        '/api/image-resizer'
+        '/api/image-resizer',
+        '/api/jobs',
+        '/api/schedules'
       ]
     });
   });
@@ -222,6 +227,11 @@ setupSocketHandlers(io);
 
 const PORT = process.env.PORT || 3001;
 
+// Restore job history and schedules before accepting requests
+await initJobStore();
+await loadSchedules();
+resumeInterruptedJobs();
+
 server.listen(PORT, () => {
   console.log(`🚀 OKIEDOKIE-UTILITY Backend running on port ${PORT}`);
   console.log(`📱 Frontend: ${process.env.FRONTEND_URL || 'http://localhost:5173'}`);
@@ -231,19 +241,32 @@ server.listen(PORT, () => {
   console.log(`📁 Download directory: ${downloadDir}`);
 });
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    console.log('Process terminated');
-  });
-});
+// Graceful shutdown: stop taking work, let running jobs finish or checkpoint them
+const SHUTDOWN_DRAIN_TIMEOUT = parseInt(process.env.SHUTDOWN_DRAIN_TIMEOUT_MS || '20000');
+let shuttingDown = false;
+
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} received, shutting down gracefully`);
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
   server.close(() => {
     console.log('Process terminated');
   });
-});
+
+  try {
+    await drainJobQueue(SHUTDOWN_DRAIN_TIMEOUT);
+    await flushSchedules();
+  } catch (error) {
+    console.error('Error during shutdown:', error);
+  }
+
+  closeJobStore();
+  io.close();
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 export default app;
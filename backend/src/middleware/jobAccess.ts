@@ -0,0 +1,31 @@
+import express from 'express';
+import { getJob, verifyJobToken } from '../services/jobRegistry.js';
+import { ApiResponse } from '../types/index.js';
+
+// Only the client that started a job holds its access token. It is sent as an
+// `X-Job-Token` header, or as a `token` query parameter for plain download links.
+export function requireJobAccess(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  const { jobId } = req.params;
+
+  if (!jobId || !getJob(jobId)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Job not found'
+    } as ApiResponse);
+  }
+
+  const token = req.get('X-Job-Token') || req.query.token;
+
+  if (!verifyJobToken(jobId, token)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Invalid job access token'
+    } as ApiResponse);
+  }
+
+  return next();
+}
@@ -0,0 +1,39 @@
+import express from 'express';
+import { getSchedule, verifyScheduleToken } from '../services/scheduleService.js';
+import { ApiResponse } from '../types/index.js';
+
+// Only the client that created a schedule holds its access token. It is sent as an
+// `X-Schedule-Token` header, or as a `token` query parameter for plain download links.
+export function requireScheduleAccess(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  const { scheduleId } = req.params;
+
+  if (!scheduleId || !getSchedule(scheduleId)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Schedule not found'
+    } as ApiResponse);
+  }
+
+  const token = req.get('X-Schedule-Token') || req.query.token;
+
+  if (!verifyScheduleToken(scheduleId, token)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Invalid schedule access token'
+    } as ApiResponse);
+  }
+
+  return next();
+}
+
+// Tokens of the schedules a client owns, sent comma-separated in `X-Schedule-Token`
+export function scheduleTokens(req: express.Request): string[] {
+  return (req.get('X-Schedule-Token') || '')
+    .split(',')
+    .map(token => token.trim())
+    .filter(Boolean);
+}
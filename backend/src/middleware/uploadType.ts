@@ -0,0 +1,66 @@
+import express from 'express';
+import fs from 'fs-extra';
+import path from 'path';
+import { detectFileTypeOfFile, fileTypeFor, matchesType, resolveExtension } from '../utils/fileType.js';
+import { ApiResponse } from '../types/index.js';
+
+// Multer's fileFilter only sees the name and MIME type the client sent, before
+// any bytes arrive. This runs after the upload and checks what the files really
+// are. Uploads are rejected with 415 and removed when the contents don't match
+// the claimed type or aren't one of `allowedExtensions`.
+export function requireFileType(allowedExtensions: string[]) {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const files = uploadedFiles(req);
+
+    try {
+      for (const file of files) {
+        const error = await checkUploadedFile(file, allowedExtensions);
+        if (error) {
+          await Promise.all(files.map(upload => fs.remove(upload.path).catch(console.error)));
+          return res.status(415).json({
+            success: false,
+            error
+          } as ApiResponse);
+        }
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    return next();
+  };
+}
+
+// Returns an error message, or null when the file is fine. Corrects
+// `file.mimetype` to the detected type for the route handler.
+async function checkUploadedFile(file: Express.Multer.File, allowedExtensions: string[]): Promise<string | null> {
+  const detected = await detectFileTypeOfFile(file.path);
+  if (!detected) {
+    return `Could not recognise the contents of "${file.originalname}"`;
+  }
+
+  // The extension is the user's claim; browsers guess the MIME type from it
+  const extension = path.extname(file.originalname);
+  const claimed = fileTypeFor(extension) ? extension : file.mimetype;
+  if (!matchesType(detected, claimed)) {
+    return `"${file.originalname}" is not a valid ${describe(claimed)} file; its contents are ${describe(detected.extension)}`;
+  }
+
+  const actual = resolveExtension(detected, claimed);
+  if (!allowedExtensions.includes(actual)) {
+    return `"${file.originalname}" is a ${describe(actual)} file. Allowed types: ${allowedExtensions.map(describe).join(', ')}`;
+  }
+
+  file.mimetype = fileTypeFor(actual)?.mimeType || file.mimetype;
+  return null;
+}
+
+function uploadedFiles(req: express.Request): Express.Multer.File[] {
+  if (req.file) return [req.file];
+  if (Array.isArray(req.files)) return req.files;
+  return req.files ? Object.values(req.files).flat() : [];
+}
+
+function describe(type: string): string {
+  return (fileTypeFor(type)?.extension || type).toUpperCase();
+}
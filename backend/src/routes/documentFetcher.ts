@@ -2,10 +2,28 @@ import express from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs-extra';
-import { Server } from 'socket.io';
-import { processExcelFile } from '../services/documentFetcherService.js';
-import { emitProgress, emitCompletion, emitError } from '../socket/socketHandlers.js';
-import { ApiResponse, DocumentFetcherConfig, StudentRecord } from '../types/index.js';
+import { processExcelFile, retryFromCheckpoint, getRegNo, validateNamingConfig } from '../services/documentFetcherService.js';
+import { getJob, toPublicJob, removeJobResults, failJob } from '../services/jobRegistry.js';
+import { submitJob, registerJobResumer, QueueFullError } from '../services/jobQueue.js';
+import { resumeScheduledRun } from '../services/scheduleService.js';
+import { analyzeColumns } from '../services/columnDetection.js';
+import { validateCallbackUrl } from '../services/webhookService.js';
+import { validateRetryPolicy } from '../services/downloadRetry.js';
+import { validatePoolConfig } from '../services/downloadPool.js';
+import { validateProcessingRules } from '../services/documentProcessing.js';
+import { validateColumnValidation } from '../services/documentValidation.js';
+import { requireJobAccess } from '../middleware/jobAccess.js';
+import { parseSpreadsheet, SpreadsheetError, SPREADSHEET_EXTENSIONS } from '../utils/spreadsheet.js';
+import { emitProgress, emitError, SocketServer } from '../socket/socketHandlers.js';
+import { requireFileType } from '../middleware/uploadType.js';
+import {
+  ApiResponse,
+  DocumentFetcherConfig,
+  DocumentFetcherResult,
+  DocumentFetcherRetry,
+  ParsedSpreadsheet,
+  StudentRecord
+} from '../types/index.js';
 
 const router = express.Router();
 
@@ -33,7 +51,9 @@ const upload = multer({
       'text/csv' // .csv
     ];
     
-    if (allowedTypes.includes(file.mimetype)) {
+    // Browsers often send CSV files as application/octet-stream or text/plain
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (allowedTypes.includes(file.mimetype) || SPREADSHEET_EXTENSIONS.includes(extension)) {
       cb(null, true);
     } else {
       cb(new Error('Invalid file type. Only Excel files (.xlsx, .xls) and CSV files are allowed.'));
@@ -41,15 +61,41 @@ const upload = multer({
   }
 });
 
+// Check the bytes of uploaded spreadsheets, not just the name and MIME type
+const checkUploadType = requireFileType(['xlsx', 'xls', 'csv']);
+
 // Get Socket.IO instance (we'll need to pass this from the main server)
-let io: Server;
+let io: SocketServer;
 
-export function setSocketIO(socketIO: Server) {
+export function setSocketIO(socketIO: SocketServer) {
   io = socketIO;
 }
 
+// Continue document fetches interrupted by a server restart under the same jobId
+registerJobResumer('document-fetcher', (job) => {
+  if (!io || !job.input?.data || !job.input?.config) return false;
+
+  if (job.input.scheduleId) {
+    return resumeScheduledRun(job);
+  }
+
+  const { data, config } = job.input as { data: StudentRecord[]; config: DocumentFetcherConfig };
+  const retry = retryFromCheckpoint(job);
+
+  submitJob({
+    jobId: job.jobId,
+    tool: 'document-fetcher',
+    total: retry ? retry.resultIds.length : data.length,
+    reopen: true,
+    io,
+    run: (signal) => processDocumentsInBackground(data, config, job.jobId, io, signal, retry)
+  });
+  return true;
+});
+
 // Parse Excel file endpoint
-router.post('/parse-excel', upload.single('file'), async (req, res) => {
+// Optional `sheet` (name) and `headerRow` (1-based) as form fields or query parameters
+router.post('/parse-excel', upload.single('file'), checkUploadType, async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({
@@ -58,8 +104,36 @@ router.post('/parse-excel', upload.single('file'), async (req, res) => {
       } as ApiResponse);
     }
 
+    const sheet = req.body?.sheet ?? req.query.sheet;
+    const headerRow = req.body?.headerRow ?? req.query.headerRow;
+
+    if (sheet !== undefined && (typeof sheet !== 'string' || !sheet)) {
+      await fs.remove(req.file.path);
+      return res.status(400).json({
+        success: false,
+        error: 'sheet must be a sheet name'
+      } as ApiResponse);
+    }
+
+    if (headerRow !== undefined && !/^[1-9]\d*$/.test(String(headerRow))) {
+      await fs.remove(req.file.path);
+      return res.status(400).json({
+        success: false,
+        error: 'headerRow must be a positive row number'
+      } as ApiResponse);
+    }
+
     const filePath = req.file.path;
-    const parsedData = await parseExcelFile(filePath);
+    const parsed = await parseSpreadsheet(filePath, {
+      sheet,
+      headerRow: headerRow !== undefined ? parseInt(String(headerRow)) : undefined
+    });
+    const analysis = analyzeColumns(parsed.records, parsed.columns);
+    const parsedData: ParsedSpreadsheet = {
+      ...parsed,
+      ...analysis,
+      validRows: parsed.records.filter(record => getRegNo(record, analysis.suggestedIdColumn)).length
+    };
 
     // Clean up uploaded file
     await fs.remove(filePath);
@@ -67,7 +141,9 @@ router.post('/parse-excel', upload.single('file'), async (req, res) => {
     return res.json({
       success: true,
       data: parsedData,
-      message: 'Excel file parsed successfully'
+      message: parsedData.duplicateHeaders.length > 0
+        ? `Excel file parsed with ${parsedData.duplicateHeaders.length} duplicate headers`
+        : 'Excel file parsed successfully'
     } as ApiResponse);
 
   } catch (error) {
@@ -78,7 +154,7 @@ router.post('/parse-excel', upload.single('file'), async (req, res) => {
       await fs.remove(req.file.path).catch(console.error);
     }
 
-    return res.status(500).json({
+    return res.status(error instanceof SpreadsheetError ? error.statusCode : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to parse Excel file'
     } as ApiResponse);
@@ -88,9 +164,10 @@ router.post('/parse-excel', upload.single('file'), async (req, res) => {
 // Process documents endpoint
 router.post('/process-documents', async (req, res) => {
   try {
-    const { data, config }: { 
+    const { data, config, callbackUrl }: { 
       data: StudentRecord[], 
-      config: DocumentFetcherConfig 
+      config: DocumentFetcherConfig,
+      callbackUrl?: string
     } = req.body;
 
     if (!data || !Array.isArray(data)) {
@@ -100,6 +177,54 @@ router.post('/process-documents', async (req, res) => {
       } as ApiResponse);
     }
 
+    const namingError = validateNamingConfig(config || {} as DocumentFetcherConfig, data);
+    if (namingError) {
+      return res.status(400).json({
+        success: false,
+        error: namingError
+      } as ApiResponse);
+    }
+
+    const retryPolicyError = validateRetryPolicy(config?.retryPolicy);
+    if (retryPolicyError) {
+      return res.status(400).json({
+        success: false,
+        error: retryPolicyError
+      } as ApiResponse);
+    }
+
+    const poolError = validatePoolConfig(config || {});
+    if (poolError) {
+      return res.status(400).json({
+        success: false,
+        error: poolError
+      } as ApiResponse);
+    }
+
+    const processingError = validateProcessingRules(config || {} as DocumentFetcherConfig);
+    if (processingError) {
+      return res.status(400).json({
+        success: false,
+        error: processingError
+      } as ApiResponse);
+    }
+
+    const validationError = validateColumnValidation(config || {} as DocumentFetcherConfig);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      } as ApiResponse);
+    }
+
+    const callbackError = validateCallbackUrl(callbackUrl);
+    if (callbackError) {
+      return res.status(400).json({
+        success: false,
+        error: callbackError
+      } as ApiResponse);
+    }
+
     if (!io) {
       return res.status(500).json({
         success: false,
@@ -110,17 +235,34 @@ router.post('/process-documents', async (req, res) => {
     // Generate job ID
     const jobId = `doc-fetch-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-    // Start processing in background
-    processDocumentsInBackground(data, config, jobId, io);
+    // Queue processing in background
+    const { queuePosition, accessToken } = submitJob({
+      jobId,
+      tool: 'document-fetcher',
+      total: data.length,
+      input: { data, config },
+      callbackUrl: callbackUrl || undefined,
+      io,
+      run: (signal) => processDocumentsInBackground(data, config, jobId, io, signal)
+    });
 
     return res.json({
       success: true,
-      data: { jobId },
+      data: { jobId, queuePosition, accessToken },
       message: 'Document processing started'
     } as ApiResponse);
 
   } catch (error) {
     console.error('Error starting document processing:', error);
+
+    if (error instanceof QueueFullError) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+      return res.status(503).json({
+        success: false,
+        error: error.message
+      } as ApiResponse);
+    }
+
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to start processing'
@@ -128,25 +270,116 @@ router.post('/process-documents', async (req, res) => {
   }
 });
 
+// Retry failed (and optionally skipped) items of a finished job
+router.post('/retry/:jobId', requireJobAccess, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const { includeSkipped = false }: { includeSkipped?: boolean } = req.body || {};
+    const job = getJob(jobId);
+
+    if (!job || job.tool !== 'document-fetcher') {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      } as ApiResponse);
+    }
+
+    if (job.status === 'pending' || job.status === 'queued' || job.status === 'processing') {
+      return res.status(409).json({
+        success: false,
+        error: 'Job is still running'
+      } as ApiResponse);
+    }
+
+    if (!job.input?.data || !job.input?.config) {
+      return res.status(400).json({
+        success: false,
+        error: 'Original job input is not available for retry'
+      } as ApiResponse);
+    }
+
+    if (!io) {
+      return res.status(500).json({
+        success: false,
+        error: 'Socket.IO not initialized'
+      } as ApiResponse);
+    }
+
+    const retryStatuses = includeSkipped ? ['failed', 'skipped'] : ['failed'];
+    const previousResults = job.results as DocumentFetcherResult[];
+    const resultIds = previousResults
+      .filter(result => retryStatuses.includes(result.status))
+      .map(result => result.id);
+
+    if (resultIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No failed items to retry'
+      } as ApiResponse);
+    }
+
+    const retryIds = new Set(resultIds);
+    const retry: DocumentFetcherRetry = {
+      resultIds,
+      previousResults: previousResults.filter(result => !retryIds.has(result.id))
+    };
+    const { data, config } = job.input as { data: StudentRecord[]; config: DocumentFetcherConfig };
+
+    // Queue the retry under the original jobId and column mapping
+    const { queuePosition } = submitJob({
+      jobId,
+      tool: 'document-fetcher',
+      total: resultIds.length,
+      reopen: true,
+      io,
+      run: (signal) => processDocumentsInBackground(data, config, jobId, io, signal, retry)
+    });
+
+    return res.json({
+      success: true,
+      data: { jobId, queuePosition, retrying: resultIds.length },
+      message: 'Retry of failed documents started'
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('Error starting document retry:', error);
+
+    if (error instanceof QueueFullError) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+      return res.status(503).json({
+        success: false,
+        error: error.message
+      } as ApiResponse);
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start retry'
+    } as ApiResponse);
+  }
+});
+
 // Get processing status endpoint
-router.get('/status/:jobId', async (req, res) => {
+router.get('/status/:jobId', requireJobAccess, async (req, res) => {
   try {
     const { jobId } = req.params;
-    
-    // In a real application, you'd store job status in a database
-    // For now, we'll return a simple response
-    res.json({
+    const job = getJob(jobId);
+
+    if (!job || job.tool !== 'document-fetcher') {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      } as ApiResponse);
+    }
+
+    return res.json({
       success: true,
-      data: {
-        jobId,
-        status: 'processing',
-        message: 'Job status endpoint - implement with database storage'
-      }
+      data: toPublicJob(job)
     } as ApiResponse);
 
   } catch (error) {
     console.error('Error getting job status:', error);
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to get job status'
     } as ApiResponse);
@@ -154,7 +387,7 @@ router.get('/status/:jobId', async (req, res) => {
 });
 
 // Download ZIP file endpoint
-router.get('/download/:jobId', async (req, res) => {
+router.get('/download/:jobId', requireJobAccess, async (req, res) => {
   try {
     const { jobId } = req.params;
     const downloadDir = process.env.DOWNLOAD_DIR || 'downloads';
@@ -200,9 +433,16 @@ async function processDocumentsInBackground(
   data: StudentRecord[],
   config: DocumentFetcherConfig,
   jobId: string,
-  socketIO: Server
+  socketIO: SocketServer,
+  signal: AbortSignal,
+  retry?: DocumentFetcherRetry
 ): Promise<void> {
   try {
+    // Drop the results that are about to be replaced
+    if (retry) {
+      removeJobResults(jobId, retry.resultIds);
+    }
+
     // Emit start event
     emitProgress(socketIO, jobId, 'document-fetcher:start', {
       jobId,
@@ -211,46 +451,16 @@ async function processDocumentsInBackground(
       timestamp: new Date().toISOString()
     });
 
-    // Process the documents
-    const result = await processExcelFile(data, config, jobId, socketIO);
-
-    // Emit completion event
-    emitCompletion(socketIO, jobId, 'document-fetcher:complete', {
-      jobId,
-      result,
-      timestamp: new Date().toISOString()
-    });
+    // Process the documents. The service reports completion or cancellation itself.
+    await processExcelFile(data, config, jobId, socketIO, signal, retry);
 
   } catch (error) {
     console.error('Error in background processing:', error);
+    failJob(jobId, error);
     
     // Emit error event
     emitError(socketIO, jobId, 'document-fetcher:error', error);
   }
 }
 
-// Simple Excel parser (you can enhance this with a proper library)
-async function parseExcelFile(filePath: string): Promise<any> {
-  // This is a simplified version - in a real application, you'd use a proper Excel parser
-  // like 'xlsx' library
-  
-  const fileContent = await fs.readFile(filePath);
-  
-  // For now, return mock data structure
-  return {
-    records: [
-      {
-        'Reg No': '001',
-        'Student Photo': 'https://drive.google.com/file/d/example1/view',
-        'Student Signature': 'https://drive.google.com/file/d/example2/view',
-        '12th Marksheet': 'https://drive.google.com/file/d/example3/view',
-        'Migration Certificate': 'https://drive.google.com/file/d/example4/view'
-      }
-    ],
-    columns: ['Reg No', 'Student Photo', 'Student Signature', '12th Marksheet', 'Migration Certificate'],
-    totalRows: 1,
-    validRows: 1
-  };
-}
-
 export default router;
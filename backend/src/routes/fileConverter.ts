@@ -2,16 +2,20 @@ import express from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs-extra';
-import { Server } from 'socket.io';
-import { emitProgress, emitCompletion, emitError } from '../socket/socketHandlers.js';
+import { emitProgress, emitCompletion, emitError, SocketServer } from '../socket/socketHandlers.js';
+import { startJob, updateJobProgress, addJobResult, completeJob, cancelJob, failJob } from '../services/jobRegistry.js';
+import { submitJob, QueueFullError } from '../services/jobQueue.js';
+import { validateCallbackUrl } from '../services/webhookService.js';
+import { createThroughputTracker } from '../utils/throughput.js';
+import { requireFileType } from '../middleware/uploadType.js';
 import { ApiResponse, FileConverterConfig, FileConverterResult } from '../types/index.js';
 
 const router = express.Router();
 
 // Get Socket.IO instance
-let io: Server;
+let io: SocketServer;
 
-export function setSocketIO(socketIO: Server) {
+export function setSocketIO(socketIO: SocketServer) {
   io = socketIO;
 }
 
@@ -50,8 +54,11 @@ const upload = multer({
   }
 });
 
+// Uploaded documents must be what their extension says
+const checkUploadType = requireFileType(['pdf', 'doc', 'docx', 'txt', 'rtf', 'odt']);
+
 // Convert single file
-router.post('/convert', upload.single('file'), async (req, res) => {
+router.post('/convert', upload.single('file'), checkUploadType, async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({
@@ -96,7 +103,7 @@ router.post('/convert', upload.single('file'), async (req, res) => {
 });
 
 // Convert multiple files
-router.post('/convert-bulk', upload.array('files', 10), async (req, res) => {
+router.post('/convert-bulk', upload.array('files', 10), checkUploadType, async (req, res) => {
   try {
     const files = req.files as Express.Multer.File[];
     
@@ -116,6 +123,17 @@ router.post('/convert-bulk', upload.array('files', 10), async (req, res) => {
       } as ApiResponse);
     }
 
+    const callbackError = validateCallbackUrl(req.body.callbackUrl);
+    if (callbackError) {
+      for (const file of files) {
+        await fs.remove(file.path).catch(console.error);
+      }
+      return res.status(400).json({
+        success: false,
+        error: callbackError
+      } as ApiResponse);
+    }
+
     if (!io) {
       return res.status(500).json({
         success: false,
@@ -125,12 +143,19 @@ router.post('/convert-bulk', upload.array('files', 10), async (req, res) => {
 
     const jobId = `file-convert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-    // Start bulk conversion in background
-    convertBulkFiles(files, config, jobId, io);
+    // Queue bulk conversion in background
+    const { queuePosition, accessToken } = submitJob({
+      jobId,
+      tool: 'file-converter',
+      total: files.length,
+      callbackUrl: req.body.callbackUrl || undefined,
+      io,
+      run: (signal) => convertBulkFiles(files, config, jobId, io, signal)
+    });
 
     return res.json({
       success: true,
-      data: { jobId },
+      data: { jobId, queuePosition, accessToken },
       message: 'Bulk file conversion started'
     } as ApiResponse);
 
@@ -145,6 +170,14 @@ router.post('/convert-bulk', upload.array('files', 10), async (req, res) => {
       }
     }
 
+    if (error instanceof QueueFullError) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+      return res.status(503).json({
+        success: false,
+        error: error.message
+      } as ApiResponse);
+    }
+
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to start bulk conversion'
@@ -205,7 +238,8 @@ router.get('/download/:filename', async (req, res) => {
 // Convert file function
 async function convertFile(
   file: Express.Multer.File,
-  config: FileConverterConfig
+  config: FileConverterConfig,
+  signal?: AbortSignal
 ): Promise<FileConverterResult> {
   const downloadDir = process.env.DOWNLOAD_DIR || 'downloads';
   const convertedDir = path.join(downloadDir, 'converted-files');
@@ -226,6 +260,12 @@ async function convertFile(
   // Perform conversion based on formats
   const success = await performConversion(file.path, outputPath, originalFormat, config.outputFormat, config);
 
+  // The job was cancelled while this file was being processed
+  if (signal?.aborted) {
+    await fs.remove(outputPath).catch(console.error);
+    throw new Error('Job cancelled');
+  }
+
   if (!success) {
     throw new Error(`Failed to convert from ${originalFormat} to ${config.outputFormat}`);
   }
@@ -435,12 +475,16 @@ async function convertBulkFiles(
   files: Express.Multer.File[],
   config: FileConverterConfig,
   jobId: string,
-  socketIO: Server
+  socketIO: SocketServer,
+  signal: AbortSignal
 ): Promise<void> {
   try {
     const results: FileConverterResult[] = [];
     const total = files.length;
 
+    startJob(jobId, total);
+    const throughput = createThroughputTracker(total);
+
     // Emit start event
     emitProgress(socketIO, jobId, 'file-converter:start', {
       jobId,
@@ -450,14 +494,19 @@ async function convertBulkFiles(
     });
 
     for (let i = 0; i < files.length; i++) {
+      if (signal.aborted) break;
+
       const file = files[i];
       
       try {
         if (!file) {
           throw new Error('File is undefined');
         }
-        const result = await convertFile(file, config);
+        const result = await convertFile(file, config, signal);
         results.push(result);
+        addJobResult(jobId, result);
+        throughput.completeItem(result.originalSize);
+        updateJobProgress(jobId, i + 1, total);
 
         // Clean up uploaded file
         await fs.remove(file.path);
@@ -468,6 +517,7 @@ async function convertBulkFiles(
           current: i + 1,
           total,
           progress: ((i + 1) / total) * 100,
+          ...throughput.stats(),
           result,
           timestamp: new Date().toISOString()
         });
@@ -478,6 +528,8 @@ async function convertBulkFiles(
           await fs.remove(file.path).catch(console.error);
         }
 
+        if (signal.aborted) break;
+
         const errorResult: FileConverterResult = {
           id: `convert-${i}`,
           status: 'failed',
@@ -492,24 +544,54 @@ async function convertBulkFiles(
         };
         
         results.push(errorResult);
+        addJobResult(jobId, errorResult);
+        throughput.completeItem();
+        updateJobProgress(jobId, i + 1, total);
 
         emitProgress(socketIO, jobId, 'file-converter:progress', {
           jobId,
           current: i + 1,
           total,
           progress: ((i + 1) / total) * 100,
+          ...throughput.stats(),
           result: errorResult,
           timestamp: new Date().toISOString()
         });
       }
     }
 
+    if (signal.aborted) {
+      // Clean up uploads that were never processed
+      for (const file of files.slice(results.length)) {
+        await fs.remove(file.path).catch(console.error);
+      }
+
+      const hasOutput = results.some(r => r.status === 'success');
+      const zipPath = hasOutput ? await createConvertedFilesZip(jobId, results) : undefined;
+      cancelJob(jobId, { zipPath });
+
+      emitCompletion(socketIO, jobId, 'file-converter:cancelled', {
+        jobId,
+        ...throughput.stats(),
+        totalProcessed: results.filter(r => r.status === 'success').length,
+        totalFailed: results.filter(r => r.status === 'failed').length,
+        totalCancelled: total - results.length,
+        zipPath,
+        results,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
     // Create ZIP archive with all converted files
     const zipPath = await createConvertedFilesZip(jobId, results);
 
+    completeJob(jobId, { zipPath });
+
     // Emit completion event
     emitCompletion(socketIO, jobId, 'file-converter:complete', {
       jobId,
+      ...throughput.stats(),
       totalProcessed: results.filter(r => r.status === 'success').length,
       totalFailed: results.filter(r => r.status === 'failed').length,
       zipPath,
@@ -525,6 +607,7 @@ async function convertBulkFiles(
       await fs.remove(file.path).catch(console.error);
     }
     
+    failJob(jobId, error);
     emitError(socketIO, jobId, 'file-converter:error', error);
   }
 }
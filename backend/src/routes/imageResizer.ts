@@ -3,16 +3,21 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs-extra';
 import sharp from 'sharp';
-import { Server } from 'socket.io';
-import { emitProgress, emitCompletion, emitError } from '../socket/socketHandlers.js';
+import { emitProgress, emitCompletion, emitError, SocketServer } from '../socket/socketHandlers.js';
+import { startJob, updateJobProgress, addJobResult, completeJob, cancelJob, failJob } from '../services/jobRegistry.js';
+import { submitJob, QueueFullError } from '../services/jobQueue.js';
+import { validateCallbackUrl } from '../services/webhookService.js';
+import { createThroughputTracker } from '../utils/throughput.js';
+import { requireFileType } from '../middleware/uploadType.js';
+import { buildImagePipeline } from '../utils/imagePipeline.js';
 import { ApiResponse, ImageResizerConfig, ImageResizerResult } from '../types/index.js';
 
 const router = express.Router();
 
 // Get Socket.IO instance
-let io: Server;
+let io: SocketServer;
 
-export function setSocketIO(socketIO: Server) {
+export function setSocketIO(socketIO: SocketServer) {
   io = socketIO;
 }
 
@@ -52,8 +57,11 @@ const upload = multer({
   }
 });
 
+// Uploads must really be images, whatever their name says
+const checkUploadType = requireFileType(['jpg', 'png', 'webp', 'avif', 'gif', 'tiff']);
+
 // Resize single image
-router.post('/resize', upload.single('image'), async (req, res) => {
+router.post('/resize', upload.single('image'), checkUploadType, async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({
@@ -96,7 +104,7 @@ router.post('/resize', upload.single('image'), async (req, res) => {
 });
 
 // Resize multiple images
-router.post('/resize-bulk', upload.array('images', 10), async (req, res) => {
+router.post('/resize-bulk', upload.array('images', 10), checkUploadType, async (req, res) => {
   try {
     const files = req.files as Express.Multer.File[];
     
@@ -114,6 +122,17 @@ router.post('/resize-bulk', upload.array('images', 10), async (req, res) => {
     if (config.height) config.height = parseInt(config.height as any);
     if (config.quality) config.quality = parseInt(config.quality as any);
 
+    const callbackError = validateCallbackUrl(req.body.callbackUrl);
+    if (callbackError) {
+      for (const file of files) {
+        await fs.remove(file.path).catch(console.error);
+      }
+      return res.status(400).json({
+        success: false,
+        error: callbackError
+      } as ApiResponse);
+    }
+
     if (!io) {
       return res.status(500).json({
         success: false,
@@ -123,12 +142,19 @@ router.post('/resize-bulk', upload.array('images', 10), async (req, res) => {
 
     const jobId = `img-resize-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-    // Start bulk resizing in background
-    resizeBulkImages(files, config, jobId, io);
+    // Queue bulk resizing in background
+    const { queuePosition, accessToken } = submitJob({
+      jobId,
+      tool: 'image-resizer',
+      total: files.length,
+      callbackUrl: req.body.callbackUrl || undefined,
+      io,
+      run: (signal) => resizeBulkImages(files, config, jobId, io, signal)
+    });
 
     return res.json({
       success: true,
-      data: { jobId },
+      data: { jobId, queuePosition, accessToken },
       message: 'Bulk image resizing started'
     } as ApiResponse);
 
@@ -143,6 +169,14 @@ router.post('/resize-bulk', upload.array('images', 10), async (req, res) => {
       }
     }
 
+    if (error instanceof QueueFullError) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+      return res.status(503).json({
+        success: false,
+        error: error.message
+      } as ApiResponse);
+    }
+
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to start bulk resizing'
@@ -202,7 +236,8 @@ router.get('/download/:filename', async (req, res) => {
 // Resize image function
 async function resizeImage(
   file: Express.Multer.File,
-  config: ImageResizerConfig
+  config: ImageResizerConfig,
+  signal?: AbortSignal
 ): Promise<ImageResizerResult> {
   const downloadDir = process.env.DOWNLOAD_DIR || 'downloads';
   const resizedDir = path.join(downloadDir, 'resized-images');
@@ -218,51 +253,15 @@ async function resizeImage(
   const filename = `resized-${timestamp}.${ext}`;
   const outputPath = path.join(resizedDir, filename);
 
-  // Create Sharp instance
-  let sharpInstance = sharp(file.path);
-
-  // Apply resizing
-  if (config.width || config.height) {
-    const resizeOptions: any = {};
-    
-    if (config.width) resizeOptions.width = config.width;
-    if (config.height) resizeOptions.height = config.height;
-    
-    resizeOptions.fit = config.fit || 'cover';
-    resizeOptions.withoutEnlargement = true;
-
-    sharpInstance = sharpInstance.resize(resizeOptions);
-  }
+  // Process the image
+  await buildImagePipeline(file.path, config).toFile(outputPath);
 
-  // Apply format conversion and quality
-  switch (config.format || 'jpeg') {
-    case 'jpeg':
-      sharpInstance = sharpInstance.jpeg({ 
-        quality: config.quality || 90,
-        progressive: true
-      });
-      break;
-    case 'png':
-      sharpInstance = sharpInstance.png({ 
-        quality: config.quality || 90,
-        progressive: true
-      });
-      break;
-    case 'webp':
-      sharpInstance = sharpInstance.webp({ 
-        quality: config.quality || 90
-      });
-      break;
-    case 'avif':
-      sharpInstance = sharpInstance.avif({ 
-        quality: config.quality || 90
-      });
-      break;
+  // The job was cancelled while this file was being processed
+  if (signal?.aborted) {
+    await fs.remove(outputPath).catch(console.error);
+    throw new Error('Job cancelled');
   }
 
-  // Process the image
-  await sharpInstance.toFile(outputPath);
-
   // Get resized image metadata
   const resizedMetadata = await sharp(outputPath).metadata();
   const resizedStats = await fs.stat(outputPath);
@@ -295,12 +294,16 @@ async function resizeBulkImages(
   files: Express.Multer.File[],
   config: ImageResizerConfig,
   jobId: string,
-  socketIO: Server
+  socketIO: SocketServer,
+  signal: AbortSignal
 ): Promise<void> {
   try {
     const results: ImageResizerResult[] = [];
     const total = files.length;
 
+    startJob(jobId, total);
+    const throughput = createThroughputTracker(total);
+
     // Emit start event
     emitProgress(socketIO, jobId, 'image-resizer:start', {
       jobId,
@@ -310,14 +313,19 @@ async function resizeBulkImages(
     });
 
     for (let i = 0; i < files.length; i++) {
+      if (signal.aborted) break;
+
       const file = files[i];
       
       try {
         if (!file) {
           throw new Error('File is undefined');
         }
-        const result = await resizeImage(file, config);
+        const result = await resizeImage(file, config, signal);
         results.push(result);
+        addJobResult(jobId, result);
+        throughput.completeItem(result.originalSize.fileSize);
+        updateJobProgress(jobId, i + 1, total);
 
         // Clean up uploaded file
         await fs.remove(file.path);
@@ -328,6 +336,7 @@ async function resizeBulkImages(
           current: i + 1,
           total,
           progress: ((i + 1) / total) * 100,
+          ...throughput.stats(),
           result,
           timestamp: new Date().toISOString()
         });
@@ -338,6 +347,8 @@ async function resizeBulkImages(
           await fs.remove(file.path).catch(console.error);
         }
 
+        if (signal.aborted) break;
+
         const errorResult: ImageResizerResult = {
           id: `img-${i}`,
           status: 'failed',
@@ -352,24 +363,54 @@ async function resizeBulkImages(
         };
         
         results.push(errorResult);
+        addJobResult(jobId, errorResult);
+        throughput.completeItem();
+        updateJobProgress(jobId, i + 1, total);
 
         emitProgress(socketIO, jobId, 'image-resizer:progress', {
           jobId,
           current: i + 1,
           total,
           progress: ((i + 1) / total) * 100,
+          ...throughput.stats(),
           result: errorResult,
           timestamp: new Date().toISOString()
         });
       }
     }
 
+    if (signal.aborted) {
+      // Clean up uploads that were never processed
+      for (const file of files.slice(results.length)) {
+        await fs.remove(file.path).catch(console.error);
+      }
+
+      const hasOutput = results.some(r => r.status === 'success');
+      const zipPath = hasOutput ? await createResizedImagesZip(jobId, results) : undefined;
+      cancelJob(jobId, { zipPath });
+
+      emitCompletion(socketIO, jobId, 'image-resizer:cancelled', {
+        jobId,
+        ...throughput.stats(),
+        totalProcessed: results.filter(r => r.status === 'success').length,
+        totalFailed: results.filter(r => r.status === 'failed').length,
+        totalCancelled: total - results.length,
+        zipPath,
+        results,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
     // Create ZIP archive with all resized images
     const zipPath = await createResizedImagesZip(jobId, results);
 
+    completeJob(jobId, { zipPath });
+
     // Emit completion event
     emitCompletion(socketIO, jobId, 'image-resizer:complete', {
       jobId,
+      ...throughput.stats(),
       totalProcessed: results.filter(r => r.status === 'success').length,
       totalFailed: results.filter(r => r.status === 'failed').length,
       zipPath,
@@ -385,6 +426,7 @@ async function resizeBulkImages(
       await fs.remove(file.path).catch(console.error);
     }
     
+    failJob(jobId, error);
     emitError(socketIO, jobId, 'image-resizer:error', error);
   }
 }
@@ -0,0 +1,261 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import compression from 'compression';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import type { SocketServer } from '../socket/socketHandlers.js';
+
+// Read when the modules load
+process.env.JOB_QUEUE_CONCURRENCY_QR_CODE = '1';
+process.env.SSE_HEARTBEAT_MS = '20';
+
+let registry: typeof import('../services/jobRegistry.js');
+let socketHandlers: typeof import('../socket/socketHandlers.js');
+let downloadDir: string;
+let server: Server;
+let baseUrl: string;
+
+interface SentEvent {
+  event: string;
+  data: any;
+}
+
+// Hands what is sent to a job's room to that job's listener
+const listeners = new Map<string, (sent: SentEvent) => void>();
+const io = {
+  to: (room: string) => ({
+    emit: (event: string, data: any) => listeners.get(room)?.({ event, data }),
+    volatile: { emit: () => true }
+  }),
+  emit: () => true
+} as unknown as SocketServer;
+
+before(async () => {
+  // Job logs interleaved with the runner's reports can garble them
+  mock.method(console, 'log', () => {});
+
+  downloadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-route-'));
+  process.env.DOWNLOAD_DIR = downloadDir;
+
+  registry = await import('../services/jobRegistry.js');
+  socketHandlers = await import('../socket/socketHandlers.js');
+  const qrCode = await import('./qrCode.js');
+  const jobs = await import('./jobs.js');
+  qrCode.setSocketIO(io);
+
+  // As in index.ts: the event stream flushes through it
+  const app = express();
+  app.use(compression());
+  app.use(express.json());
+  app.use('/api/qr-code', qrCode.default);
+  app.use('/api/jobs', jobs.default);
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.close();
+  await fs.remove(downloadDir);
+});
+
+function qrConfigs(count: number) {
+  return Array.from({ length: count }, (_, i) => ({ type: 'text', content: `item ${i}` }));
+}
+
+// Starts a bulk QR code job under `jobId` and collects its events until the final one
+async function startQrJob(jobId: string, count: number, onEvent?: (sent: SentEvent, token: string) => void) {
+  const events: SentEvent[] = [];
+  let token: string;
+
+  const finished = new Promise<SentEvent>(resolve => {
+    listeners.set(jobId, sent => {
+      events.push(sent);
+      onEvent?.(sent, token);
+      if (['qr-code:complete', 'qr-code:cancelled', 'qr-code:error'].includes(sent.event)) {
+        listeners.delete(jobId);
+        resolve(sent);
+      }
+    });
+  });
+
+  const response = await fetch(`${baseUrl}/api/qr-code/generate-bulk`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jobId, configs: qrConfigs(count) })
+  });
+  assert.equal(response.status, 200);
+  token = (await response.json()).data.accessToken;
+
+  return { token, events, finished };
+}
+
+function cancel(jobId: string, token: string) {
+  return fetch(`${baseUrl}/api/jobs/${jobId}`, { method: 'DELETE', headers: { 'X-Job-Token': token } });
+}
+
+async function jobStatus(jobId: string, token: string) {
+  const response = await fetch(`${baseUrl}/api/jobs/${jobId}`, { headers: { 'X-Job-Token': token } });
+  return (await response.json()).data;
+}
+
+test('cancelling a running job keeps its finished items in a partial ZIP', async () => {
+  let cancelRequest: Promise<Response>;
+  const job = await startQrJob('cancel-running', 200, (sent, token) => {
+    if (sent.event === 'qr-code:progress' && !cancelRequest) {
+      cancelRequest = cancel('cancel-running', token);
+    }
+  });
+
+  const final = await job.finished;
+  const response = await cancelRequest;
+  assert.equal(response.status, 202);
+  assert.deepEqual((await response.json()).data, { jobId: 'cancel-running', status: 'cancelling' });
+
+  // The remaining items were skipped, not failed
+  assert.equal(final.event, 'qr-code:cancelled');
+  const { data } = final;
+  assert.ok(data.totalProcessed >= 1);
+  assert.ok(data.totalCancelled >= 1);
+  assert.equal(data.totalProcessed + data.totalFailed + data.totalCancelled, 200);
+  assert.equal(data.zipPath, path.join(downloadDir, 'qr-codes_cancel-running.zip'));
+  assert.ok((await fs.stat(data.zipPath)).size > 0);
+
+  const status = await jobStatus('cancel-running', job.token);
+  assert.equal(status.status, 'cancelled');
+  assert.equal(status.results.length, data.totalProcessed + data.totalFailed);
+  assert.equal(status.output.zipPath, data.zipPath);
+
+  // A finished job cannot be cancelled again
+  const again = await cancel('cancel-running', job.token);
+  assert.equal(again.status, 409);
+  assert.equal((await again.json()).error, 'Job is already cancelled');
+});
+
+test('cancelling a queued job ends it without running any item', async () => {
+  // Holds the only QR code slot, so the next job has to wait
+  const blocker = await startQrJob('cancel-blocker', 200);
+  const queued = await startQrJob('cancel-queued', 3);
+  assert.equal((await jobStatus('cancel-queued', queued.token)).status, 'queued');
+
+  const response = await cancel('cancel-queued', queued.token);
+  assert.equal(response.status, 202);
+
+  const final = await queued.finished;
+  assert.equal(final.event, 'qr-code:cancelled');
+  assert.equal(final.data.totalCancelled, 3);
+  assert.equal(final.data.zipPath, undefined);
+  assert.equal(queued.events.some(sent => sent.event === 'qr-code:progress' && 'result' in sent.data), false);
+
+  const status = await jobStatus('cancel-queued', queued.token);
+  assert.equal(status.status, 'cancelled');
+  assert.deepEqual(status.results, []);
+
+  await cancel('cancel-blocker', blocker.token);
+  assert.equal((await blocker.finished).event, 'qr-code:cancelled');
+});
+
+test('only the holder of the job token can cancel it', async () => {
+  const job = await startQrJob('cancel-token', 200);
+
+  assert.equal((await cancel('cancel-token', 'wrong')).status, 403);
+  assert.equal((await cancel('no-such-job', job.token)).status, 404);
+
+  await cancel('cancel-token', job.token);
+  await job.finished;
+});
+
+function emitQrProgress(jobId: string, current: number) {
+  socketHandlers.emitProgress(io, jobId, 'qr-code:progress', {
+    jobId,
+    current,
+    total: 3,
+    progress: current * 33,
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Reads an event stream until `done` says the text so far is enough, or the server ends it
+async function readEvents(url: string, headers: Record<string, string>, done: (text: string) => boolean = () => false) {
+  const controller = new AbortController();
+  const response = await fetch(`${baseUrl}${url}`, { headers, signal: controller.signal });
+  assert.equal(response.headers.get('content-type'), 'text/event-stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (!done(text)) {
+    const { value, done: ended } = await reader.read();
+    if (ended) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  controller.abort();
+  return text;
+}
+
+function eventIds(text: string): number[] {
+  return [...text.matchAll(/^id: (\d+)$/gm)].map(match => Number(match[1]));
+}
+
+test('the event stream replays what came after Last-Event-ID and ends with the job', async () => {
+  const { accessToken } = registry.createJob('sse-replay', 'qr-code', 3);
+  emitQrProgress('sse-replay', 1);
+  emitQrProgress('sse-replay', 2);
+  registry.completeJob('sse-replay');
+  socketHandlers.emitCompletion(io, 'sse-replay', 'qr-code:complete', {
+    jobId: 'sse-replay',
+    totalProcessed: 3,
+    results: [],
+    elapsedSeconds: 1,
+    bytesProcessed: 0,
+    itemsPerSecond: 3,
+    bytesPerSecond: 0,
+    etaSeconds: 0,
+    timestamp: new Date().toISOString()
+  });
+
+  const text = await readEvents('/api/jobs/sse-replay/events', { 'X-Job-Token': accessToken, 'Last-Event-ID': '1' });
+
+  assert.match(text, /^retry: \d+\n\n/);
+  const snapshot = JSON.parse(text.match(/^event: job:snapshot\ndata: (.*)$/m)[1]);
+  assert.equal(snapshot.seq, 3);
+  assert.equal(snapshot.replayed, 2);
+  assert.equal(snapshot.job.status, 'completed');
+  assert.deepEqual(eventIds(text), [2, 3]);
+  assert.match(text, /id: 3\nevent: qr-code:complete\ndata: \{"jobId":"sse-replay"/);
+
+  // The lastEventId query parameter works for clients that can't set headers
+  const resumed = await readEvents(`/api/jobs/sse-replay/events?token=${accessToken}&lastEventId=2`, {});
+  assert.deepEqual(eventIds(resumed), [3]);
+});
+
+test('a running job gets live events and heartbeats', async () => {
+  const { accessToken } = registry.createJob('sse-live', 'qr-code', 3);
+  emitQrProgress('sse-live', 1);
+
+  let sentLive = false;
+  const text = await readEvents('/api/jobs/sse-live/events', { 'X-Job-Token': accessToken }, soFar => {
+    // Once subscribed, send an event the replay could not have had
+    if (soFar.includes('event: job:snapshot') && !sentLive) {
+      sentLive = true;
+      emitQrProgress('sse-live', 2);
+    }
+    return soFar.includes(': heartbeat\n\n') && soFar.includes('id: 2');
+  });
+
+  // Without Last-Event-ID everything still buffered is replayed first
+  assert.deepEqual(eventIds(text), [1, 2]);
+  assert.match(text, /id: 2\nevent: qr-code:progress\n/);
+});
+
+test('the event stream needs the job token', async () => {
+  const { accessToken } = registry.createJob('sse-private', 'qr-code', 3);
+
+  const forbidden = await fetch(`${baseUrl}/api/jobs/sse-private/events`, { headers: { 'X-Job-Token': 'wrong' } });
+  assert.equal(forbidden.status, 403);
+  const missing = await fetch(`${baseUrl}/api/jobs/sse-missing/events`, { headers: { 'X-Job-Token': accessToken } });
+  assert.equal(missing.status, 404);
+});
@@ -0,0 +1,167 @@
+import express from 'express';
+import { getJob, toPublicJob } from '../services/jobRegistry.js';
+import { abortJob } from '../services/jobQueue.js';
+import { requireJobAccess } from '../middleware/jobAccess.js';
+import { getJobEventReplay, subscribeToJobEvents, JobEvent } from '../socket/socketHandlers.js';
+import { ApiResponse } from '../types/index.js';
+
+const router = express.Router();
+
+const SSE_HEARTBEAT_INTERVAL = parseInt(process.env.SSE_HEARTBEAT_MS || '15000');
+const SSE_RETRY_DELAY = 3000;
+
+// Get status of any job
+router.get('/:jobId', requireJobAccess, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const job = getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      } as ApiResponse);
+    }
+
+    return res.json({
+      success: true,
+      data: toPublicJob(job)
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('Error getting job status:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get job status'
+    } as ApiResponse);
+  }
+});
+
+// List webhook delivery attempts for a job
+router.get('/:jobId/webhooks', requireJobAccess, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const job = getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      } as ApiResponse);
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        callbackUrl: job.callbackUrl || null,
+        deliveries: job.webhookDeliveries || []
+      }
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('Error getting webhook deliveries:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get webhook deliveries'
+    } as ApiResponse);
+  }
+});
+
+// Stream job events as Server-Sent Events, an alternative to Socket.IO.
+// Supports resuming with the Last-Event-ID header (or `lastEventId` query parameter).
+router.get('/:jobId/events', requireJobAccess, (req, res) => {
+  const { jobId } = req.params;
+  const lastSeq = Number(req.get('Last-Event-ID') || req.query.lastEventId) || 0;
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const write = (chunk: string) => {
+    res.write(chunk);
+    res.flush(); // push through the compression middleware
+  };
+
+  const sendEvent = (entry: JobEvent) => {
+    // Transient events carry no id, so they don't move the client's Last-Event-ID
+    const id = entry.seq ? `id: ${entry.seq}\n` : '';
+    write(`${id}event: ${entry.event}\ndata: ${JSON.stringify(entry.data)}\n\n`);
+  };
+
+  let heartbeat: NodeJS.Timeout | undefined;
+  let unsubscribe = () => {};
+
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+
+  write(`retry: ${SSE_RETRY_DELAY}\n\n`);
+
+  // Catch up first: snapshot, then everything after Last-Event-ID
+  const { snapshot, events } = getJobEventReplay(jobId, lastSeq);
+  write(`event: job:snapshot\ndata: ${JSON.stringify(snapshot)}\n\n`);
+
+  for (const entry of events) {
+    sendEvent(entry);
+  }
+
+  // Nothing more will arrive for a finished job
+  const job = getJob(jobId);
+  const finished = job && ['completed', 'failed', 'cancelled'].includes(job.status);
+  if (events.some(entry => entry.final) || (finished && events.length === 0)) {
+    return close();
+  }
+
+  unsubscribe = subscribeToJobEvents(jobId, (entry) => {
+    sendEvent(entry);
+    if (entry.final) close();
+  });
+
+  heartbeat = setInterval(() => write(': heartbeat\n\n'), SSE_HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Cancel a queued or running job
+router.delete('/:jobId', requireJobAccess, async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const job = getJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      } as ApiResponse);
+    }
+
+    if (!abortJob(jobId)) {
+      return res.status(409).json({
+        success: false,
+        error: `Job is already ${job.status}`
+      } as ApiResponse);
+    }
+
+    return res.status(202).json({
+      success: true,
+      data: { jobId, status: 'cancelling' },
+      message: 'Job cancellation requested'
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel job'
+    } as ApiResponse);
+  }
+});
+
+export default router;
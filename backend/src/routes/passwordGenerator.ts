@@ -1,16 +1,20 @@
 import express from 'express';
 import path from 'path';
 import fs from 'fs-extra';
-import { Server } from 'socket.io';
-import { emitProgress, emitCompletion, emitError } from '../socket/socketHandlers.js';
+import { emitProgress, emitCompletion, emitError, SocketServer } from '../socket/socketHandlers.js';
+import { startJob, updateJobProgress, addJobResult, completeJob, cancelJob, failJob } from '../services/jobRegistry.js';
+import { submitJob, QueueFullError, JobIdInUseError } from '../services/jobQueue.js';
+import { isJobId } from '../socket/eventValidation.js';
+import { validateCallbackUrl } from '../services/webhookService.js';
+import { createThroughputTracker } from '../utils/throughput.js';
 import { ApiResponse, PasswordConfig, PasswordResult } from '../types/index.js';
 
 const router = express.Router();
 
 // Get Socket.IO instance
-let io: Server;
+let io: SocketServer;
 
-export function setSocketIO(socketIO: Server) {
+export function setSocketIO(socketIO: SocketServer) {
   io = socketIO;
 }
 
@@ -46,9 +50,10 @@ router.post('/generate', async (req, res) => {
 // Generate multiple passwords
 router.post('/generate-bulk', async (req, res) => {
   try {
-    const { config, jobId }: { 
+    const { config, jobId, callbackUrl }: { 
       config: PasswordConfig, 
-      jobId?: string 
+      jobId?: string,
+      callbackUrl?: string
     } = req.body;
 
     if (!config || !config.count || config.count < 1 || config.count > 1000) {
@@ -58,6 +63,21 @@ router.post('/generate-bulk', async (req, res) => {
       } as ApiResponse);
     }
 
+    const callbackError = validateCallbackUrl(callbackUrl);
+    if (callbackError) {
+      return res.status(400).json({
+        success: false,
+        error: callbackError
+      } as ApiResponse);
+    }
+
+    if (jobId !== undefined && !isJobId(jobId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'jobId may only contain letters, numbers, "-" and "_" (up to 128 characters)'
+      } as ApiResponse);
+    }
+
     if (!io) {
       return res.status(500).json({
         success: false,
@@ -67,17 +87,40 @@ router.post('/generate-bulk', async (req, res) => {
 
     const finalJobId = jobId || `pwd-bulk-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-    // Start bulk generation in background
-    generateBulkPasswords(config, finalJobId, io);
+    // Queue bulk generation in background
+    const { queuePosition, accessToken } = submitJob({
+      jobId: finalJobId,
+      tool: 'password-generator',
+      total: config.count,
+      callbackUrl: callbackUrl || undefined,
+      io,
+      run: (signal) => generateBulkPasswords(config, finalJobId, io, signal)
+    });
 
     return res.json({
       success: true,
-      data: { jobId: finalJobId },
+      data: { jobId: finalJobId, queuePosition, accessToken },
       message: 'Bulk password generation started'
     } as ApiResponse);
 
   } catch (error) {
     console.error('Error starting bulk password generation:', error);
+
+    if (error instanceof JobIdInUseError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse);
+    }
+
+    if (error instanceof QueueFullError) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+      return res.status(503).json({
+        success: false,
+        error: error.message
+      } as ApiResponse);
+    }
+
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to start bulk generation'
@@ -260,12 +303,16 @@ function calculateEntropy(password: string): number {
 async function generateBulkPasswords(
   config: PasswordConfig,
   jobId: string,
-  socketIO: Server
+  socketIO: SocketServer,
+  signal: AbortSignal
 ): Promise<void> {
   try {
     const results: PasswordResult[] = [];
     const total = config.count;
 
+    startJob(jobId, total);
+    const throughput = createThroughputTracker(total);
+
     // Emit start event
     emitProgress(socketIO, jobId, 'password-generator:start', {
       jobId,
@@ -275,9 +322,14 @@ async function generateBulkPasswords(
     });
 
     for (let i = 0; i < config.count; i++) {
+      if (signal.aborted) break;
+
       try {
         const result = await generatePassword(config);
         results.push(result);
+        addJobResult(jobId, result);
+        throughput.completeItem();
+        updateJobProgress(jobId, i + 1, total);
 
         // Emit progress update
         emitProgress(socketIO, jobId, 'password-generator:progress', {
@@ -285,6 +337,7 @@ async function generateBulkPasswords(
           current: i + 1,
           total,
           progress: ((i + 1) / total) * 100,
+          ...throughput.stats(),
           result,
           timestamp: new Date().toISOString()
         });
@@ -302,24 +355,49 @@ async function generateBulkPasswords(
         };
         
         results.push(errorResult);
+        addJobResult(jobId, errorResult);
+        throughput.completeItem();
+        updateJobProgress(jobId, i + 1, total);
 
         emitProgress(socketIO, jobId, 'password-generator:progress', {
           jobId,
           current: i + 1,
           total,
           progress: ((i + 1) / total) * 100,
+          ...throughput.stats(),
           result: errorResult,
           timestamp: new Date().toISOString()
         });
       }
     }
 
+    if (signal.aborted) {
+      const hasOutput = results.some(r => r.status === 'success');
+      const files = hasOutput ? await createPasswordFiles(jobId, results, config) : undefined;
+      cancelJob(jobId, { files });
+
+      emitCompletion(socketIO, jobId, 'password-generator:cancelled', {
+        jobId,
+        ...throughput.stats(),
+        totalProcessed: results.filter(r => r.status === 'success').length,
+        totalFailed: results.filter(r => r.status === 'failed').length,
+        totalCancelled: total - results.length,
+        files,
+        results,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
     // Create downloadable files
     const files = await createPasswordFiles(jobId, results, config);
 
+    completeJob(jobId, { files });
+
     // Emit completion event
     emitCompletion(socketIO, jobId, 'password-generator:complete', {
       jobId,
+      ...throughput.stats(),
       totalProcessed: results.filter(r => r.status === 'success').length,
       totalFailed: results.filter(r => r.status === 'failed').length,
       files,
@@ -329,6 +407,7 @@ async function generateBulkPasswords(
 
   } catch (error) {
     console.error('Error in bulk password generation:', error);
+    failJob(jobId, error);
     emitError(socketIO, jobId, 'password-generator:error', error);
   }
 }
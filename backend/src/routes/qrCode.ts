@@ -2,16 +2,20 @@ import express from 'express';
 import QRCode from 'qrcode';
 import path from 'path';
 import fs from 'fs-extra';
-import { Server } from 'socket.io';
-import { emitProgress, emitCompletion, emitError } from '../socket/socketHandlers.js';
+import { emitProgress, emitCompletion, emitError, SocketServer } from '../socket/socketHandlers.js';
+import { startJob, updateJobProgress, addJobResult, completeJob, cancelJob, failJob } from '../services/jobRegistry.js';
+import { submitJob, QueueFullError, JobIdInUseError } from '../services/jobQueue.js';
+import { isJobId } from '../socket/eventValidation.js';
+import { validateCallbackUrl } from '../services/webhookService.js';
+import { createThroughputTracker } from '../utils/throughput.js';
 import { ApiResponse, QRCodeConfig, QRCodeResult } from '../types/index.js';
 
 const router = express.Router();
 
 // Get Socket.IO instance
-let io: Server;
+let io: SocketServer;
 
-export function setSocketIO(socketIO: Server) {
+export function setSocketIO(socketIO: SocketServer) {
   io = socketIO;
 }
 
@@ -47,9 +51,10 @@ router.post('/generate', async (req, res) => {
 // Generate multiple QR codes
 router.post('/generate-bulk', async (req, res) => {
   try {
-    const { configs, jobId }: { 
+    const { configs, jobId, callbackUrl }: { 
       configs: QRCodeConfig[], 
-      jobId?: string 
+      jobId?: string,
+      callbackUrl?: string
     } = req.body;
 
     if (!configs || !Array.isArray(configs)) {
@@ -59,6 +64,21 @@ router.post('/generate-bulk', async (req, res) => {
       } as ApiResponse);
     }
 
+    const callbackError = validateCallbackUrl(callbackUrl);
+    if (callbackError) {
+      return res.status(400).json({
+        success: false,
+        error: callbackError
+      } as ApiResponse);
+    }
+
+    if (jobId !== undefined && !isJobId(jobId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'jobId may only contain letters, numbers, "-" and "_" (up to 128 characters)'
+      } as ApiResponse);
+    }
+
     if (!io) {
       return res.status(500).json({
         success: false,
@@ -68,17 +88,40 @@ router.post('/generate-bulk', async (req, res) => {
 
     const finalJobId = jobId || `qr-bulk-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-    // Start bulk generation in background
-    generateBulkQRCodes(configs, finalJobId, io);
+    // Queue bulk generation in background
+    const { queuePosition, accessToken } = submitJob({
+      jobId: finalJobId,
+      tool: 'qr-code',
+      total: configs.length,
+      callbackUrl: callbackUrl || undefined,
+      io,
+      run: (signal) => generateBulkQRCodes(configs, finalJobId, io, signal)
+    });
 
     return res.json({
       success: true,
-      data: { jobId: finalJobId },
+      data: { jobId: finalJobId, queuePosition, accessToken },
       message: 'Bulk QR code generation started'
     } as ApiResponse);
 
   } catch (error) {
     console.error('Error starting bulk QR code generation:', error);
+
+    if (error instanceof JobIdInUseError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      } as ApiResponse);
+    }
+
+    if (error instanceof QueueFullError) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+      return res.status(503).json({
+        success: false,
+        error: error.message
+      } as ApiResponse);
+    }
+
     return res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to start bulk generation'
@@ -189,6 +232,7 @@ async function generateQRCode(config: QRCodeConfig): Promise<QRCodeResult> {
     qrCodeUrl: downloadUrl,
     downloadUrl,
     size: qrOptions.width,
+    fileSize: stats.size,
     format: 'png',
     timestamp: new Date().toISOString()
   };
@@ -198,12 +242,16 @@ async function generateQRCode(config: QRCodeConfig): Promise<QRCodeResult> {
 async function generateBulkQRCodes(
   configs: QRCodeConfig[],
   jobId: string,
-  socketIO: Server
+  socketIO: SocketServer,
+  signal: AbortSignal
 ): Promise<void> {
   try {
     const results: QRCodeResult[] = [];
     const total = configs.length;
 
+    startJob(jobId, total);
+    const throughput = createThroughputTracker(total);
+
     // Emit start event
     emitProgress(socketIO, jobId, 'qr-code:start', {
       jobId,
@@ -212,6 +260,8 @@ async function generateBulkQRCodes(
     });
 
     for (let i = 0; i < configs.length; i++) {
+      if (signal.aborted) break;
+
       const config = configs[i];
       
       try {
@@ -220,6 +270,9 @@ async function generateBulkQRCodes(
         }
         const result = await generateQRCode(config);
         results.push(result);
+        addJobResult(jobId, result);
+        throughput.completeItem(result.fileSize);
+        updateJobProgress(jobId, i + 1, total);
 
         // Emit progress update
         emitProgress(socketIO, jobId, 'qr-code:progress', {
@@ -227,6 +280,7 @@ async function generateBulkQRCodes(
           current: i + 1,
           total,
           progress: ((i + 1) / total) * 100,
+          ...throughput.stats(),
           result,
           timestamp: new Date().toISOString()
         });
@@ -245,24 +299,49 @@ async function generateBulkQRCodes(
         };
         
         results.push(errorResult);
+        addJobResult(jobId, errorResult);
+        throughput.completeItem();
+        updateJobProgress(jobId, i + 1, total);
 
         emitProgress(socketIO, jobId, 'qr-code:progress', {
           jobId,
           current: i + 1,
           total,
           progress: ((i + 1) / total) * 100,
+          ...throughput.stats(),
           result: errorResult,
           timestamp: new Date().toISOString()
         });
       }
     }
 
+    if (signal.aborted) {
+      const hasOutput = results.some(r => r.status === 'success');
+      const zipPath = hasOutput ? await createQRCodeZip(jobId, results) : undefined;
+      cancelJob(jobId, { zipPath });
+
+      emitCompletion(socketIO, jobId, 'qr-code:cancelled', {
+        jobId,
+        ...throughput.stats(),
+        totalProcessed: results.filter(r => r.status === 'success').length,
+        totalFailed: results.filter(r => r.status === 'failed').length,
+        totalCancelled: total - results.length,
+        zipPath,
+        results,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
     // Create ZIP archive with all QR codes
     const zipPath = await createQRCodeZip(jobId, results);
 
+    completeJob(jobId, { zipPath });
+
     // Emit completion event
     emitCompletion(socketIO, jobId, 'qr-code:complete', {
       jobId,
+      ...throughput.stats(),
       totalProcessed: results.filter(r => r.status === 'success').length,
       totalFailed: results.filter(r => r.status === 'failed').length,
       zipPath,
@@ -272,6 +351,7 @@ async function generateBulkQRCodes(
 
   } catch (error) {
     console.error('Error in bulk QR code generation:', error);
+    failJob(jobId, error);
     emitError(socketIO, jobId, 'qr-code:error', error);
   }
 }
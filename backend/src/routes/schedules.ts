@@ -0,0 +1,320 @@
+import express from 'express';
+import fs from 'fs-extra';
+import {
+  createSchedule,
+  getSchedule,
+  listSchedules,
+  toPublicSchedule,
+  pauseSchedule,
+  resumeSchedule,
+  deleteSchedule,
+  MAX_KEEP_RUNS
+} from '../services/scheduleService.js';
+import { requireScheduleAccess, scheduleTokens } from '../middleware/scheduleAccess.js';
+import { validateCallbackUrl } from '../services/webhookService.js';
+import { validateRetryPolicy } from '../services/downloadRetry.js';
+import { validatePoolConfig } from '../services/downloadPool.js';
+import { validateProcessingRules } from '../services/documentProcessing.js';
+import { validateColumnValidation } from '../services/documentValidation.js';
+import { validateNamingConfig } from '../services/documentFetcherService.js';
+import { getNextCronRun, parseCron } from '../utils/cron.js';
+import { ApiResponse, DocumentFetcherConfig, StudentRecord } from '../types/index.js';
+
+const router = express.Router();
+
+// List the schedules whose tokens the client sends
+router.get('/', async (req, res) => {
+  try {
+    return res.json({
+      success: true,
+      data: listSchedules(scheduleTokens(req)).map(schedule => toPublicSchedule(schedule))
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('Error listing schedules:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list schedules'
+    } as ApiResponse);
+  }
+});
+
+// Create a recurring document-fetch schedule
+router.post('/', async (req, res) => {
+  try {
+    const { name, cron, data, config, keepRuns, callbackUrl }: {
+      name: string,
+      cron: string,
+      data: StudentRecord[],
+      config: DocumentFetcherConfig,
+      keepRuns?: number,
+      callbackUrl?: string
+    } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Schedule name is required'
+      } as ApiResponse);
+    }
+
+    if (!cron || typeof cron !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Cron expression is required'
+      } as ApiResponse);
+    }
+
+    try {
+      parseCron(cron);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid cron expression'
+      } as ApiResponse);
+    }
+
+    // e.g. `0 0 30 2 *`: valid fields, but no date ever matches
+    if (!getNextCronRun(cron)) {
+      return res.status(400).json({
+        success: false,
+        error: `Cron expression "${cron}" never matches a date`
+      } as ApiResponse);
+    }
+
+    if (!data || !Array.isArray(data) || data.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid data format'
+      } as ApiResponse);
+    }
+
+    if (!config || typeof config !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: 'Config is required'
+      } as ApiResponse);
+    }
+
+    const namingError = validateNamingConfig(config, data);
+    if (namingError) {
+      return res.status(400).json({
+        success: false,
+        error: namingError
+      } as ApiResponse);
+    }
+
+    const retryPolicyError = validateRetryPolicy(config.retryPolicy);
+    if (retryPolicyError) {
+      return res.status(400).json({
+        success: false,
+        error: retryPolicyError
+      } as ApiResponse);
+    }
+
+    const poolError = validatePoolConfig(config);
+    if (poolError) {
+      return res.status(400).json({
+        success: false,
+        error: poolError
+      } as ApiResponse);
+    }
+
+    const processingError = validateProcessingRules(config);
+    if (processingError) {
+      return res.status(400).json({
+        success: false,
+        error: processingError
+      } as ApiResponse);
+    }
+
+    const validationError = validateColumnValidation(config);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError
+      } as ApiResponse);
+    }
+
+    if (keepRuns !== undefined && (!Number.isInteger(keepRuns) || keepRuns < 1 || keepRuns > MAX_KEEP_RUNS)) {
+      return res.status(400).json({
+        success: false,
+        error: `keepRuns must be between 1 and ${MAX_KEEP_RUNS}`
+      } as ApiResponse);
+    }
+
+    const callbackError = validateCallbackUrl(callbackUrl);
+    if (callbackError) {
+      return res.status(400).json({
+        success: false,
+        error: callbackError
+      } as ApiResponse);
+    }
+
+    const schedule = createSchedule({
+      name: name.trim(),
+      cron: cron.trim(),
+      data,
+      config,
+      keepRuns,
+      callbackUrl: callbackUrl || undefined
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: { ...toPublicSchedule(schedule), accessToken: schedule.accessToken },
+      message: 'Schedule created'
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('Error creating schedule:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create schedule'
+    } as ApiResponse);
+  }
+});
+
+// Get a schedule with the results of its kept runs
+router.get('/:scheduleId', requireScheduleAccess, async (req, res) => {
+  try {
+    const schedule = getSchedule(req.params.scheduleId);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Schedule not found'
+      } as ApiResponse);
+    }
+
+    return res.json({
+      success: true,
+      data: toPublicSchedule(schedule, true)
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('Error getting schedule:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get schedule'
+    } as ApiResponse);
+  }
+});
+
+// Pause a schedule. Its active run, if any, keeps going.
+router.post('/:scheduleId/pause', requireScheduleAccess, async (req, res) => {
+  try {
+    const schedule = pauseSchedule(req.params.scheduleId);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Schedule not found'
+      } as ApiResponse);
+    }
+
+    return res.json({
+      success: true,
+      data: toPublicSchedule(schedule),
+      message: 'Schedule paused'
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('Error pausing schedule:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to pause schedule'
+    } as ApiResponse);
+  }
+});
+
+// Resume a paused schedule
+router.post('/:scheduleId/resume', requireScheduleAccess, async (req, res) => {
+  try {
+    const schedule = resumeSchedule(req.params.scheduleId);
+
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Schedule not found'
+      } as ApiResponse);
+    }
+
+    return res.json({
+      success: true,
+      data: toPublicSchedule(schedule),
+      message: 'Schedule resumed'
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('Error resuming schedule:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to resume schedule'
+    } as ApiResponse);
+  }
+});
+
+// Delete a schedule and its stored result sets
+router.delete('/:scheduleId', requireScheduleAccess, async (req, res) => {
+  try {
+    if (!await deleteSchedule(req.params.scheduleId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Schedule not found'
+      } as ApiResponse);
+    }
+
+    return res.json({
+      success: true,
+      message: 'Schedule deleted'
+    } as ApiResponse);
+
+  } catch (error) {
+    console.error('Error deleting schedule:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete schedule'
+    } as ApiResponse);
+  }
+});
+
+// Download the ZIP of one kept run
+router.get('/:scheduleId/runs/:jobId/download', requireScheduleAccess, async (req, res) => {
+  try {
+    const { scheduleId, jobId } = req.params;
+    const run = getSchedule(scheduleId)?.runs.find(run => run.jobId === jobId);
+
+    if (!run?.zipPath || !await fs.pathExists(run.zipPath)) {
+      return res.status(404).json({
+        success: false,
+        error: 'ZIP file not found'
+      } as ApiResponse);
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="documents_${jobId}.zip"`);
+
+    const fileStream = fs.createReadStream(run.zipPath);
+    fileStream.pipe(res);
+
+    fileStream.on('error', (error) => {
+      console.error('Error streaming ZIP file:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Error downloading file'
+      } as ApiResponse);
+    });
+
+    return;
+
+  } catch (error) {
+    console.error('Download ZIP error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    } as ApiResponse);
+  }
+});
+
+export default router;
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeColumns, slugify } from './columnDetection.js';
+import { StudentRecord } from '../types/index.js';
+
+function rows(count: number, row: (i: number) => StudentRecord): StudentRecord[] {
+  return Array.from({ length: count }, (_, i) => row(i));
+}
+
+function kinds(records: StudentRecord[]) {
+  const { columnAnalysis } = analyzeColumns(records, Object.keys(records[0]));
+  return Object.fromEntries(columnAnalysis.map(analysis => [analysis.column, analysis.kind]));
+}
+
+test('columns are told apart by what most of their cells hold', () => {
+  const records = rows(10, i => ({
+    'Roll No': `R-${100 + i}`,
+    'Full Name': `Student ${i}`,
+    '12th Marksheet': i < 8 ? `https://drive.google.com/file/d/file${i}/view` : 'pending',
+    Remarks: ''
+  }));
+
+  assert.deepEqual(kinds(records), {
+    'Roll No': 'identifier',
+    'Full Name': 'text',
+    '12th Marksheet': 'drive-link',
+    Remarks: 'empty'
+  });
+});
+
+test('link counts, folder names and the suggested mapping', () => {
+  const records = rows(4, i => ({
+    regNo: String(2026000 + i),
+    Photo: i === 3 ? 'https://drive.google.com/drive/folders/abc' : `https://drive.google.com/open?id=photo${i}`,
+    'Photo!': `https://docs.google.com/document/d/doc${i}/edit`
+  }));
+  const { columnAnalysis, suggestedMapping, suggestedIdColumn } = analyzeColumns(records, ['regNo', 'Photo', 'Photo!']);
+
+  const photo = columnAnalysis.find(analysis => analysis.column === 'Photo');
+  assert.equal(photo.sampled, 4);
+  assert.equal(photo.filled, 4);
+  assert.equal(photo.validLinks, 3);
+  assert.equal(photo.invalidLinks, 1);
+  assert.equal(photo.validLinkRatio, 0.75);
+
+  // Folder names stay unique when headers slug to the same name
+  assert.deepEqual(suggestedMapping, { Photo: 'photo', 'Photo!': 'photo-2' });
+  assert.equal(suggestedIdColumn, 'regNo');
+});
+
+test('other hosts are file links when they point at files, web pages otherwise', () => {
+  const records = rows(4, i => ({
+    Resume: i % 2 ? `https://www.dropbox.com/s/abc${i}/resume.pdf?dl=0` : `https://cdn.example.com/resumes/${i}.pdf`,
+    Portfolio: `https://example.com/students/${i}`
+  }));
+  const { columnAnalysis, suggestedMapping } = analyzeColumns(records, ['Resume', 'Portfolio']);
+
+  assert.equal(columnAnalysis[0].kind, 'file-link');
+  assert.deepEqual(columnAnalysis[0].sources, { dropbox: 2, http: 2 });
+  assert.equal(columnAnalysis[1].kind, 'url');
+  assert.equal(columnAnalysis[1].otherUrls, 4);
+  assert.equal(columnAnalysis[1].folderName, 'portfolio');
+
+  // Web page columns are not mapped unless the user asks for them
+  assert.deepEqual(suggestedMapping, { Resume: 'resume' });
+});
+
+test('an ID column is suggested by header before uniqueness', () => {
+  const records = rows(5, i => ({
+    Code: `C${i}`,
+    'Admission Number': `A${i % 2}`,
+    Email: `s${i}@example.com`
+  }));
+
+  // Repeated values still count as IDs under an ID-like header
+  assert.equal(kinds(records)['Admission Number'], 'identifier');
+  assert.equal(analyzeColumns(records, ['Code', 'Admission Number', 'Email']).suggestedIdColumn, 'Admission Number');
+  assert.equal(analyzeColumns(records, ['Code', 'Email']).suggestedIdColumn, 'Code');
+  assert.equal(analyzeColumns(records, ['Email']).suggestedIdColumn, undefined);
+});
+
+test('large sheets are sampled', () => {
+  const records = rows(1000, i => ({ Photo: `https://drive.google.com/file/d/f${i}/view` }));
+  const [photo] = analyzeColumns(records, ['Photo']).columnAnalysis;
+
+  assert.equal(photo.sampled, 200);
+  assert.equal(photo.validLinks, 200);
+});
+
+test('headers become folder-safe slugs', () => {
+  assert.equal(slugify('12th Marksheet'), '12th-marksheet');
+  assert.equal(slugify('  Résumé / CV  '), 'resume-cv');
+  assert.equal(slugify('***'), '');
+  assert.equal(slugify('x'.repeat(63) + ' y'), 'x'.repeat(63));
+});
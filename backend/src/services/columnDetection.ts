@@ -0,0 +1,159 @@
+import { resolveSource } from './sourceResolvers.js';
+import { DocumentSource, SpreadsheetColumnAnalysis, SpreadsheetColumnKind, StudentRecord } from '../types/index.js';
+
+// Rows sampled per column, spread evenly over the sheet
+const SAMPLE_ROWS = 200;
+// Share of filled cells that must be links for a column to count as a link column
+const LINK_THRESHOLD = 0.5;
+const ID_HEADER = /\b(reg(istration)?|roll|enrol(l?ment)?|admission|student ?id|id)\b/i;
+const ID_VALUE = /^[A-Za-z0-9][A-Za-z0-9._\/-]{0,31}$/;
+// Headers the fetcher reads registration numbers from
+const REG_NO_HEADERS = ['Reg No', 'regNo', 'REG NO'];
+// Plain http links count as files when the path ends in an extension
+const FILE_PATH = /\.[a-z0-9]{2,5}$/i;
+
+export function analyzeColumns(
+  records: StudentRecord[],
+  columns: string[]
+): {
+  columnAnalysis: SpreadsheetColumnAnalysis[];
+  suggestedMapping: { [column: string]: string };
+  suggestedIdColumn?: string;
+} {
+  const sample = sampleRows(records);
+  const usedFolders = new Set<string>();
+  const suggestedMapping: { [column: string]: string } = {};
+
+  const columnAnalysis = columns.map((column) => {
+    const values = sample
+      .map(record => record[column])
+      .filter(value => value !== undefined && value !== null && String(value).trim() !== '')
+      .map(value => String(value).trim());
+
+    let validLinks = 0;
+    let invalidLinks = 0;
+    let otherUrls = 0;
+    // Valid or not, links on Google hosts
+    let googleLinks = 0;
+    const sources: Partial<Record<DocumentSource, number>> = {};
+
+    for (const value of values) {
+      const url = parseUrl(value);
+      if (!url) continue;
+
+      if (url.hostname === 'drive.google.com' || url.hostname === 'docs.google.com') {
+        googleLinks++;
+      }
+
+      const { request } = resolveSource(value);
+      if (!request) {
+        invalidLinks++;
+      } else if (request.source === 'http' && !FILE_PATH.test(url.pathname)) {
+        otherUrls++;
+      } else {
+        validLinks++;
+        sources[request.source] = (sources[request.source] || 0) + 1;
+      }
+    }
+
+    const filled = values.length;
+    const kind = classify(column, values, googleLinks, validLinks + invalidLinks, otherUrls);
+    const analysis: SpreadsheetColumnAnalysis = {
+      column,
+      kind,
+      sampled: sample.length,
+      filled,
+      validLinks,
+      invalidLinks,
+      otherUrls,
+      validLinkRatio: filled > 0 ? Math.round((validLinks / filled) * 1000) / 1000 : 0,
+      sources
+    };
+
+    if (kind === 'drive-link' || kind === 'file-link' || kind === 'url') {
+      analysis.folderName = uniqueSlug(column, usedFolders);
+    }
+
+    // Web page columns (portfolios, profiles) are left for the user to opt in
+    if ((kind === 'drive-link' || kind === 'file-link') && validLinks > 0) {
+      suggestedMapping[column] = analysis.folderName;
+    }
+
+    return analysis;
+  });
+
+  return {
+    columnAnalysis,
+    suggestedMapping,
+    suggestedIdColumn: suggestIdColumn(columnAnalysis)
+  };
+}
+
+// Folder name for a column header, e.g. "12th Marksheet" -> "12th-marksheet"
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64)
+    .replace(/-+$/, '');
+}
+
+function uniqueSlug(column: string, used: Set<string>): string {
+  const base = slugify(column) || 'documents';
+  let slug = base;
+  for (let n = 2; used.has(slug); n++) {
+    slug = `${base}-${n}`;
+  }
+  used.add(slug);
+  return slug;
+}
+
+function sampleRows(records: StudentRecord[]): StudentRecord[] {
+  if (records.length <= SAMPLE_ROWS) return records;
+
+  const step = records.length / SAMPLE_ROWS;
+  return Array.from({ length: SAMPLE_ROWS }, (_, i) => records[Math.floor(i * step)]);
+}
+
+function classify(
+  column: string,
+  values: string[],
+  googleLinks: number,
+  fileLinks: number,
+  otherUrls: number
+): SpreadsheetColumnKind {
+  if (values.length === 0) return 'empty';
+  if (googleLinks / values.length >= LINK_THRESHOLD) return 'drive-link';
+  if (fileLinks / values.length >= LINK_THRESHOLD) return 'file-link';
+  if ((fileLinks + otherUrls) / values.length >= LINK_THRESHOLD) return 'url';
+
+  // Short, mostly unique codes without spaces
+  const idLike = values.filter(value => ID_VALUE.test(value)).length / values.length;
+  const unique = new Set(values).size / values.length;
+  if (idLike >= 0.9 && (unique >= 0.9 || ID_HEADER.test(column))) return 'identifier';
+
+  return 'text';
+}
+
+function suggestIdColumn(columns: SpreadsheetColumnAnalysis[]): string | undefined {
+  const identifiers = columns.filter(column => column.kind === 'identifier');
+
+  return (
+    columns.find(column => REG_NO_HEADERS.includes(column.column) && column.kind !== 'empty') ||
+    identifiers.find(column => ID_HEADER.test(column.column)) ||
+    identifiers[0]
+  )?.column;
+}
+
+function parseUrl(value: string): URL | null {
+  if (!/^https?:\/\//i.test(value)) return null;
+
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
@@ -1,23 +1,116 @@
 import fs from 'fs-extra';
 import path from 'path';
+import crypto from 'crypto';
 import axios from 'axios';
 import archiver from 'archiver';
-import { Server } from 'socket.io';
-import { emitProgress, emitCompletion, emitError } from '../socket/socketHandlers.js';
-import { StudentRecord, DocumentFetcherConfig, DocumentFetcherResult } from '../types/index.js';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { emitProgress, emitCompletion, emitTransient, SocketServer } from '../socket/socketHandlers.js';
+import { startJob, updateJobProgress, addJobResult, completeJob, cancelJob, interruptJob } from './jobRegistry.js';
+import { isShutdownAbort } from './jobQueue.js';
+import { createThroughputTracker } from '../utils/throughput.js';
+import { delay } from '../utils/delay.js';
+import { resolveSource, DownloadRequest } from './sourceResolvers.js';
+import { DocumentDownloadError, parseHtmlResponse, reasonForStatus } from './driveInterstitial.js';
+import { RetryPolicy, classifyDownloadError, nextRetryDelay, resolveRetryPolicy } from './downloadRetry.js';
+import { DEFAULT_HOST_RATE_LIMIT, DownloadPool, HostRateLimiter, createDownloadPool, createHostRateLimiter } from './downloadPool.js';
+import { applyProcessingRule } from './documentProcessing.js';
+import { checkDocument, summarizeViolations } from './documentValidation.js';
+import { detectFileTypeOfFile, fileTypeFor, resolveExtension } from '../utils/fileType.js';
+import { assertPublicUrl, publicRequestOptions } from '../utils/networkGuard.js';
+import { DEFAULT_FILE_NAME_TEMPLATE, claimFileName, renderFileName, validateFileNameTemplate } from '../utils/fileNaming.js';
+import {
+  JobStatus,
+  StudentRecord,
+  DocumentFetcherConfig,
+  DocumentFetcherResult,
+  DocumentFetcherRetry,
+  DocumentFetchErrorClass,
+  DocumentFetchFailureReason,
+  DocumentProcessingRule,
+  DocumentValidationRule
+} from '../types/index.js';
 
 const DOWNLOAD_DIR = process.env.DOWNLOAD_DIR || 'downloads';
 const MAX_CONCURRENT_DOWNLOADS = 20;
 const DOWNLOAD_TIMEOUT = 30000;
+// Shortest gap between download-progress events for one file
+const DOWNLOAD_PROGRESS_INTERVAL = 500;
+// Confirmation pages followed before giving up, e.g. Drive's virus-scan warning
+const MAX_CONFIRM_HOPS = 2;
+// Enough of an HTML page to find a confirm form or an error message
+const MAX_HTML_BYTES = 512 * 1024;
+
+// Shared by all downloads of one job
+interface DownloadControls {
+  retryPolicy: RetryPolicy;
+  pool: DownloadPool;
+  rateLimiter: HostRateLimiter;
+}
+
+// Where one row's file is saved
+interface DownloadTarget {
+  regNo: string;
+  column: string;
+  folderPath: string;
+  fileName: string;
+}
 
 export async function processExcelFile(
   data: StudentRecord[],
   config: DocumentFetcherConfig,
   jobId: string,
-  io: Server
+  io: SocketServer,
+  signal?: AbortSignal,
+  retry?: DocumentFetcherRetry
 ): Promise<DocumentFetcherResult[]> {
   const results: DocumentFetcherResult[] = [];
+  const previousResults = retry?.previousResults || [];
+  const retryIds = retry ? new Set(retry.resultIds) : null;
   const downloadQueue: Array<() => Promise<void>> = [];
+  // Result ids of downloads that have not finished yet, checkpointed on shutdown
+  const pendingIds = new Set<string>();
+  const fileNameTemplate = config.fileNameTemplate || DEFAULT_FILE_NAME_TEMPLATE;
+  const controls: DownloadControls = {
+    retryPolicy: resolveRetryPolicy(config.retryPolicy),
+    pool: createDownloadPool(config.maxConcurrent || MAX_CONCURRENT_DOWNLOADS, {
+      adaptive: config.adaptiveConcurrency ?? true
+    }),
+    rateLimiter: createHostRateLimiter(config.hostRateLimit ?? DEFAULT_HOST_RATE_LIMIT, config.hostBurst)
+  };
+  // Names taken per folder; files kept from an earlier run keep theirs
+  const usedNames = new Map<string, Set<string>>();
+  const claimName = (folderPath: string, base: string) => {
+    if (!usedNames.has(folderPath)) usedNames.set(folderPath, new Set());
+    return claimFileName(base, usedNames.get(folderPath));
+  };
+
+  // Rows sharing a link, by resolved URL; the file is downloaded once and copied
+  const sameLinkTargets = new Map<string, DownloadTarget[]>();
+  // First result seen with each content hash
+  const firstByHash = new Map<string, DocumentFetcherResult>();
+
+  // Flag a file another student already handed in
+  const checkDuplicate = async (result: DocumentFetcherResult) => {
+    if (!hasDownload(result)) return;
+
+    const hash = await hashFile(result.filePath).catch(() => null);
+    if (!hash) return;
+
+    const first = firstByHash.get(hash);
+    if (!first) {
+      firstByHash.set(hash, result);
+    } else if (first.regNo !== result.regNo) {
+      result.duplicateOf = first.id;
+    }
+  };
+
+  for (const result of previousResults) {
+    if (result.filePath) {
+      claimName(path.dirname(result.filePath), path.parse(result.filePath).name);
+      await checkDuplicate(result);
+    }
+  }
   let totalTasks = 0;
   let completedTasks = 0;
   let skippedTasks = 0;
@@ -33,17 +126,19 @@ export async function processExcelFile(
     const row = data[i];
     if (!row) continue;
     
-    const regNo = row['Reg No'] || row['regNo'] || row['REG NO'];
+    const regNo = getRegNo(row, config.idColumn);
 
     if (!regNo) {
-      skippedTasks++;
+      if (!retryIds || retryIds.has(`row-${i + 1}`)) skippedTasks++;
       continue;
     }
 
     // Count valid tasks for each column
     for (const [colName] of Object.entries(config.columnMapping || {})) {
+      if (retryIds && !retryIds.has(`${regNo}-${colName}`)) continue;
+
       const link = row[colName];
-      if (link && typeof link === 'string' && isValidGoogleDriveLink(link)) {
+      if (link && typeof link === 'string' && resolveSource(link).request) {
         totalTasks++;
       } else {
         skippedTasks++;
@@ -55,6 +150,9 @@ export async function processExcelFile(
   console.log(`📡 Emitting document-fetcher:start to room ${jobId}`);
   console.log(`📊 Total tasks: ${totalTasks}, Skipped: ${skippedTasks}, Students: ${data.length}`);
 
+  startJob(jobId, totalTasks);
+  const throughput = createThroughputTracker(totalTasks);
+
   emitProgress(io, jobId, 'document-fetcher:start', {
     jobId,
     totalRecords: data.length,
@@ -64,148 +162,266 @@ export async function processExcelFile(
     timestamp: new Date().toISOString()
   });
 
+  const recordResult = (result: DocumentFetcherResult) => {
+    pendingIds.delete(result.id);
+    results.push(result);
+    completedTasks++;
+    throughput.completeItem();
+    addJobResult(jobId, result);
+    updateJobProgress(jobId, completedTasks, totalTasks);
+
+    // Emit progress update
+    emitProgress(io, jobId, 'document-fetcher:progress', {
+      jobId,
+      current: completedTasks,
+      total: totalTasks,
+      progress: (completedTasks / totalTasks) * 100,
+      ...throughput.stats(),
+      result,
+      timestamp: new Date().toISOString()
+    });
+  };
+
   try {
     // Process each student record
     for (let i = 0; i < data.length; i++) {
       const row = data[i];
       if (!row) continue;
       
-      const regNo = row['Reg No'] || row['regNo'] || row['REG NO'];
+      const regNo = getRegNo(row, config.idColumn);
 
       if (!regNo) {
-        results.push({
+        if (retryIds && !retryIds.has(`row-${i + 1}`)) continue;
+
+        const skipped: DocumentFetcherResult = {
           id: `row-${i + 1}`,
           regNo: `Row ${i + 1}`,
           column: 'N/A',
           status: 'skipped',
-          message: 'No registration number found',
+          message: config.idColumn ? `No value in column "${config.idColumn}"` : 'No registration number found',
           timestamp: new Date().toISOString()
-        });
+        };
+        results.push(skipped);
+        addJobResult(jobId, skipped);
         continue;
       }
 
       // Process each column for the student
       for (const [colName, folderName] of Object.entries(config.columnMapping || {})) {
+        if (retryIds && !retryIds.has(`${regNo}-${colName}`)) continue;
+
         const link = row[colName];
 
         if (!link || typeof link !== 'string') {
-          results.push({
+          const skipped: DocumentFetcherResult = {
             id: `${regNo}-${colName}`,
             regNo,
             column: colName,
             status: 'skipped',
             message: 'No link provided',
             timestamp: new Date().toISOString()
-          });
+          };
+          results.push(skipped);
+          addJobResult(jobId, skipped);
           continue;
         }
 
-        if (!isValidGoogleDriveLink(link)) {
-          results.push({
+        const resolved = resolveSource(link);
+        if (!resolved.request) {
+          const skipped: DocumentFetcherResult = {
             id: `${regNo}-${colName}`,
             regNo,
             column: colName,
             status: 'skipped',
-            message: 'Invalid Google Drive link',
+            message: resolved.error,
             timestamp: new Date().toISOString()
-          });
+          };
+          results.push(skipped);
+          addJobResult(jobId, skipped);
           continue;
         }
 
+        // Per job, so concurrent jobs and retries never share files
+        const folderPath = path.join(DOWNLOAD_DIR, jobId, folderName);
+        const fileName = claimName(folderPath, renderFileName(fileNameTemplate, row, {
+          id: regNo,
+          column: colName,
+          folder: folderName,
+          row: i + 1
+        }));
+
+        pendingIds.add(`${regNo}-${colName}`);
+
+        // The same file was already queued for another row
+        const sameLink = sameLinkTargets.get(resolved.request.url);
+        if (sameLink) {
+          sameLink.push({ regNo, column: colName, folderPath, fileName });
+          continue;
+        }
+        const copyTargets: DownloadTarget[] = [];
+        sameLinkTargets.set(resolved.request.url, copyTargets);
+
         // Add to download queue with progress tracking
         downloadQueue.push(async () => {
-          const result = await processDocument(regNo, colName, folderName, link, jobId, io);
-          results.push(result);
-          completedTasks++;
-
-          // Emit progress update
-          emitProgress(io, jobId, 'document-fetcher:progress', {
-            jobId,
-            current: completedTasks,
-            total: totalTasks,
-            progress: (completedTasks / totalTasks) * 100,
-            result,
-            timestamp: new Date().toISOString()
-          });
+          if (signal?.aborted) return;
+
+          const downloaded = await processDocument(regNo, colName, folderPath, fileName, link, resolved.request, jobId, io, controls, signal, throughput.addBytes);
+
+          // Downloads interrupted by a cancel are not counted as results
+          if (signal?.aborted && downloaded.status !== 'success') return;
+
+          // Copy before processing; the other columns may have different rules
+          const copies: DocumentFetcherResult[] = [];
+          for (const target of copyTargets) {
+            copies.push(await copyDownload(downloaded, target));
+          }
+
+          for (const copy of [downloaded, ...copies]) {
+            // Rules are checked against the file as submitted, before processing changes it
+            const checked = await checkColumnRule(copy, config.columnValidation?.[copy.column]);
+            const result = await applyColumnRule(checked, config.columnProcessing?.[copy.column]);
+            await checkDuplicate(result);
+            recordResult(result);
+          }
         });
       }
     }
 
     // Process downloads with concurrency control
-    console.log(`🚀 Starting download queue with ${downloadQueue.length} tasks`);
-    await processDownloadQueue(downloadQueue, config.maxConcurrent || MAX_CONCURRENT_DOWNLOADS);
+    const sharedLinks = totalTasks - downloadQueue.length;
+    if (sharedLinks > 0) {
+      console.log(`♻️ ${sharedLinks} links repeat an earlier row and will be copied instead of downloaded`);
+    }
+    console.log(`🚀 Starting download queue with ${downloadQueue.length} tasks (up to ${controls.pool.concurrency()} at a time)`);
+    await controls.pool.run(downloadQueue, signal);
+
+    const duplicates = results.filter(result => result.duplicateOf).length;
+    if (duplicates > 0) {
+      console.log(`👯 ${duplicates} downloaded files are identical to another student's`);
+    }
+    const warnings = results.filter(result => result.status === 'warning').length;
+    if (warnings > 0) {
+      console.log(`⚠️ ${warnings} downloaded files break their column's validation rule`);
+    }
+
+    // A retry keeps the earlier results and rebuilds the ZIP with old and new successes
+    const allResults = [...previousResults, ...results];
+
+    // Downloaded files stay on disk; the next server start continues with the rest
+    if (isShutdownAbort(signal)) {
+      interruptJob(jobId, Array.from(pendingIds));
+      console.log(`💾 Checkpointed job ${jobId}: ${pendingIds.size} downloads remaining`);
+      return allResults;
+    }
+
+    if (signal?.aborted) {
+      const hasDownloads = allResults.some(hasDownload);
+      const zipPath = hasDownloads ? await createZipArchive(jobId, allResults) : undefined;
+      cancelJob(jobId, { zipPath });
+
+      emitCompletion(io, jobId, 'document-fetcher:cancelled', {
+        jobId,
+        ...throughput.stats(),
+        totalProcessed: completedTasks,
+        totalSkipped: skippedTasks,
+        totalCancelled: totalTasks - completedTasks,
+        zipPath,
+        results: allResults,
+        timestamp: new Date().toISOString()
+      });
+
+      return allResults;
+    }
 
     // Create ZIP archive
     console.log(`📦 Creating ZIP archive for job ${jobId}`);
-    const zipPath = await createZipArchive(jobId, results);
+    const zipPath = await createZipArchive(jobId, allResults);
+    completeJob(jobId, { zipPath });
 
     // Emit completion event
     emitCompletion(io, jobId, 'document-fetcher:complete', {
       jobId,
+      ...throughput.stats(),
       totalProcessed: completedTasks,
       totalSkipped: skippedTasks,
+      ...(retry && !retry.resumed && { totalRetried: totalTasks }),
+      totalWarnings: allResults.filter(result => result.status === 'warning').length,
+      violations: summarizeViolations(allResults),
       zipPath,
-      results,
+      results: allResults,
       timestamp: new Date().toISOString()
     });
 
-    return results;
+    return allResults;
 
   } catch (error) {
     console.error('Error processing documents:', error);
-    emitError(io, jobId, 'document-fetcher:error', error);
     throw error;
   }
 }
 
-async function processDownloadQueue(
-  queue: Array<() => Promise<void>>,
-  maxConcurrent: number
-): Promise<void> {
-  const chunks = [];
-  for (let i = 0; i < queue.length; i += maxConcurrent) {
-    chunks.push(queue.slice(i, i + maxConcurrent));
-  }
+// Identifier of a spreadsheet row: the `idColumn` value, or the registration
+// number under any of its usual headers
+export function getRegNo(row: StudentRecord, idColumn?: string): string | undefined {
+  const value = idColumn ? row[idColumn] : row['Reg No'] || row['regNo'] || row['REG NO'];
+  if (value === undefined || value === null) return undefined;
+  return String(value).trim() || undefined;
+}
+
+// Check `idColumn` and `fileNameTemplate` against the submitted rows
+export function validateNamingConfig(config: DocumentFetcherConfig, data: StudentRecord[]): string | null {
+  const fields = Array.from(new Set(data.flatMap(row => (row && typeof row === 'object' ? Object.keys(row) : []))));
 
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    if (chunk) {
-      await Promise.all(chunk.map(task => task()));
-      console.log(`Completed chunk ${i + 1}/${chunks.length}`);
+  if (config.idColumn !== undefined) {
+    if (typeof config.idColumn !== 'string' || !config.idColumn) {
+      return 'idColumn must be a column name';
     }
+    if (!fields.includes(config.idColumn)) {
+      return `idColumn "${config.idColumn}" is not a column of the data`;
+    }
+  }
+
+  if (config.fileNameTemplate !== undefined) {
+    return validateFileNameTemplate(config.fileNameTemplate, fields);
   }
+
+  return null;
+}
+
+// Continue an interrupted job with its remaining downloads, keeping the finished results.
+// Returns undefined when the job never started and has to run from the beginning.
+export function retryFromCheckpoint(job: JobStatus): DocumentFetcherRetry | undefined {
+  const remainingIds = job.checkpoint?.remainingIds;
+  if (!remainingIds) return undefined;
+
+  return {
+    resultIds: remainingIds,
+    previousResults: job.results as DocumentFetcherResult[],
+    resumed: true
+  };
 }
 
 async function processDocument(
   regNo: string,
   columnName: string,
-  folderName: string,
+  folderPath: string,
+  fileName: string,
   link: string,
+  request: DownloadRequest,
   jobId: string,
-  io: Server
+  io: SocketServer,
+  controls: DownloadControls,
+  signal?: AbortSignal,
+  onBytes?: (bytes: number) => void
 ): Promise<DocumentFetcherResult> {
   try {
-    const fileId = extractFileId(link);
-    if (!fileId) {
-      return {
-        id: `${regNo}-${columnName}`,
-        regNo,
-        column: columnName,
-        status: 'failed',
-        message: 'Invalid Google Drive link',
-        timestamp: new Date().toISOString()
-      };
-    }
-
     // Create folder structure
-    const folderPath = path.join(DOWNLOAD_DIR, folderName);
     await fs.ensureDir(folderPath);
 
     // Download file with progress tracking
-    const fileName = `${regNo}_${columnName.replace(/\s+/g, '_')}`;
     const filePath = path.join(folderPath, fileName);
 
-    const success = await downloadFileWithProgress(fileId, filePath, link, jobId, io, regNo, columnName);
+    const success = await downloadFileWithProgress(request, filePath, link, jobId, io, regNo, columnName, controls, signal, onBytes);
 
     if (success.success && success.filePath) {
       const stats = await fs.stat(success.filePath);
@@ -213,8 +429,10 @@ async function processDocument(
         id: `${regNo}-${columnName}`,
         regNo,
         column: columnName,
+        source: request.source,
         status: 'success',
-        message: 'Downloaded successfully',
+        message: success.attempts > 1 ? `Downloaded successfully after ${success.attempts} attempts` : 'Downloaded successfully',
+        attempts: success.attempts,
         filePath: success.filePath,
         fileName: success.fileName || 'unknown',
         fileSize: stats.size,
@@ -225,7 +443,11 @@ async function processDocument(
         id: `${regNo}-${columnName}`,
         regNo,
         column: columnName,
+        source: request.source,
         status: 'failed',
+        failureReason: success.reason,
+        attempts: success.attempts,
+        errorClass: success.errorClass,
         message: success.error || 'Download failed',
         error: success.error || 'Unknown error',
         timestamp: new Date().toISOString()
@@ -237,7 +459,9 @@ async function processDocument(
       id: `${regNo}-${columnName}`,
       regNo,
       column: columnName,
+      source: request.source,
       status: 'failed',
+      errorClass: classifyDownloadError(error).errorClass,
       message: error instanceof Error ? error.message : 'Unknown error',
       error: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
@@ -245,141 +469,418 @@ async function processDocument(
   }
 }
 
-function extractFileId(driveUrl: string): string | null {
-  const patterns = [
-    /\/d\/([a-zA-Z0-9-_]+)/,
-    /[?&]id=([a-zA-Z0-9-_]+)/,
-    /\/file\/d\/([a-zA-Z0-9-_]+)/
-  ];
-
-  for (const pattern of patterns) {
-    const match = driveUrl.match(pattern);
-    if (match && match[1]) {
-      return match[1];
-    }
+// Downloaded files, including ones that broke their column's validation rule
+function hasDownload(result: DocumentFetcherResult): boolean {
+  return (result.status === 'success' || result.status === 'warning') && Boolean(result.filePath);
+}
+
+// Check a downloaded file against its column's validation rule. A file that
+// breaks it is kept, with status 'warning' and the reasons.
+async function checkColumnRule(result: DocumentFetcherResult, rule?: DocumentValidationRule): Promise<DocumentFetcherResult> {
+  if (!rule || !hasDownload(result)) return result;
+
+  try {
+    const warnings = await checkDocument(result.filePath, rule);
+    if (warnings.length === 0) return result;
+
+    return {
+      ...result,
+      status: 'warning',
+      message: `${result.message}; ${warnings.map(warning => warning.message).join('; ')}`,
+      warnings
+    };
+  } catch (error) {
+    console.error(`❌ Checking ${result.id} failed:`, error);
+    return result;
   }
+}
 
-  return null;
+// Run the column's processing rule on a downloaded file. A file that doesn't
+// fit the rule fails, so it stays out of the ZIP.
+async function applyColumnRule(result: DocumentFetcherResult, rule?: DocumentProcessingRule): Promise<DocumentFetcherResult> {
+  if (!rule || !hasDownload(result)) return result;
+
+  try {
+    const processed = await applyProcessingRule(result.filePath, rule);
+    return {
+      ...result,
+      message: `${result.message}; processed to ${processed.width}×${processed.height} ${processed.format.toUpperCase()}`,
+      filePath: processed.filePath,
+      fileName: path.basename(processed.filePath),
+      fileSize: processed.fileSize,
+      originalFileSize: result.fileSize
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Processing failed';
+    console.error(`❌ Processing ${result.id} failed:`, message);
+    return {
+      ...result,
+      status: 'failed',
+      message: `Downloaded, but processing failed: ${message}`,
+      error: message
+    };
+  }
 }
 
-function isValidGoogleDriveLink(url: string): boolean {
-  if (!url || typeof url !== 'string') return false;
-  
+// Result for a row whose link was already downloaded for another row. The file
+// is copied rather than fetched again; if that download failed, so does this row.
+async function copyDownload(original: DocumentFetcherResult, target: DownloadTarget): Promise<DocumentFetcherResult> {
+  const base = {
+    id: `${target.regNo}-${target.column}`,
+    regNo: target.regNo,
+    column: target.column,
+    source: original.source,
+    timestamp: new Date().toISOString()
+  };
+
+  if (original.status !== 'success' || !original.filePath) {
+    return {
+      ...base,
+      status: 'failed',
+      failureReason: original.failureReason,
+      errorClass: original.errorClass,
+      message: `Same link as ${original.id}: ${original.message}`,
+      error: original.error || 'Download failed'
+    };
+  }
+
   try {
-    const urlObj = new URL(url);
-    return urlObj.hostname === 'drive.google.com' && 
-           (url.includes('/file/d/') || url.includes('/open?id=') || url.includes('/uc?'));
-  } catch {
-    return false;
+    const filePath = path.join(target.folderPath, target.fileName + path.extname(original.filePath));
+    await fs.ensureDir(target.folderPath);
+    await fs.copy(original.filePath, filePath);
+
+    return {
+      ...base,
+      status: 'success',
+      message: `Same link as ${original.id}; copied without downloading again`,
+      filePath,
+      fileName: path.basename(filePath),
+      fileSize: original.fileSize
+    };
+  } catch (error) {
+    return {
+      ...base,
+      status: 'failed',
+      errorClass: 'file-system',
+      message: error instanceof Error ? error.message : 'Copy failed',
+      error: error instanceof Error ? error.message : 'Copy failed'
+    };
   }
 }
 
 async function downloadFileWithProgress(
-  fileId: string,
+  request: DownloadRequest,
   filePath: string,
   originalUrl: string,
   jobId: string,
-  io: Server,
+  io: SocketServer,
   regNo: string,
-  columnName: string
-): Promise<{ success: boolean; filePath?: string; fileName?: string; error?: string }> {
-  try {
-    // Convert to direct download URL
-    const downloadUrl = `https://drive.google.com/uc?export=download&id=${fileId}`;
+  columnName: string,
+  controls: DownloadControls,
+  signal?: AbortSignal,
+  onBytes?: (bytes: number) => void
+): Promise<{
+  success: boolean;
+  attempts: number;
+  filePath?: string;
+  fileName?: string;
+  error?: string;
+  reason?: DocumentFetchFailureReason;
+  errorClass?: DocumentFetchErrorClass;
+}> {
+  // Emit download start event
+  emitProgress(io, jobId, 'document-fetcher:download-start', {
+    jobId,
+    regNo,
+    column: columnName,
+    url: request.url,
+    timestamp: new Date().toISOString()
+  });
 
-    // Emit download start event
-    emitProgress(io, jobId, 'document-fetcher:download-start', {
-      jobId,
-      regNo,
-      column: columnName,
-      url: downloadUrl,
-      timestamp: new Date().toISOString()
-    });
+  const { retryPolicy, pool, rateLimiter } = controls;
 
-    const response = await axios({
-      method: 'GET',
-      url: downloadUrl,
-      responseType: 'stream',
-      timeout: DOWNLOAD_TIMEOUT,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      }
-    });
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const transfer = trackTransfer(io, jobId, regNo, columnName, attempt, onBytes);
+      const finalFilePath = await attemptDownload(request, filePath, originalUrl, rateLimiter, signal, transfer.onChunk);
+      pool.recordAttempt(null);
+      transfer.finish();
 
-    // Get file extension from content type or URL
-    const contentType = response.headers['content-type'] || '';
-    const extension = getFileExtension(contentType, originalUrl);
-    const finalFilePath = filePath + extension;
+      emitProgress(io, jobId, 'document-fetcher:download-complete', {
+        jobId,
+        regNo,
+        column: columnName,
+        filePath: finalFilePath,
+        timestamp: new Date().toISOString()
+      });
 
-    const writer = fs.createWriteStream(finalFilePath);
-    response.data.pipe(writer);
+      return {
+        success: true,
+        attempts: attempt,
+        filePath: finalFilePath,
+        fileName: path.basename(finalFilePath)
+      };
 
-    return new Promise((resolve, reject) => {
-      writer.on('finish', () => {
-        emitProgress(io, jobId, 'document-fetcher:download-complete', {
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Download failed';
+      const { errorClass, retryAfterMs } = classifyDownloadError(error);
+      pool.recordAttempt(errorClass);
+      const delayMs = signal?.aborted ? null : nextRetryDelay(retryPolicy, attempt, errorClass, retryAfterMs);
+
+      if (delayMs !== null) {
+        emitProgress(io, jobId, 'document-fetcher:download-retry', {
           jobId,
           regNo,
           column: columnName,
-          filePath: finalFilePath,
+          error: errorMessage,
+          errorClass,
+          attempt,
+          maxAttempts: retryPolicy.maxAttempts,
+          delayMs,
           timestamp: new Date().toISOString()
         });
 
-        resolve({
-          success: true,
-          filePath: finalFilePath,
-          fileName: path.basename(finalFilePath)
-        });
+        await delay(delayMs, signal);
+        if (!signal?.aborted) continue;
+      }
+
+      let reason: DocumentFetchFailureReason | undefined;
+      if (error instanceof DocumentDownloadError) {
+        reason = error.reason;
+      } else if (axios.isAxiosError(error)) {
+        reason = reasonForStatus(error.response?.status);
+      }
+
+      emitProgress(io, jobId, 'document-fetcher:download-error', {
+        jobId,
+        regNo,
+        column: columnName,
+        error: errorMessage,
+        reason,
+        errorClass,
+        attempts: attempt,
+        timestamp: new Date().toISOString()
       });
 
-      writer.on('error', (error) => {
-        emitProgress(io, jobId, 'document-fetcher:download-error', {
-          jobId,
-          regNo,
-          column: columnName,
-          error: error.message,
-          timestamp: new Date().toISOString()
-        });
+      return {
+        success: false,
+        attempts: attempt,
+        error: errorMessage,
+        reason,
+        errorClass
+      };
+    }
+  }
+}
 
-        resolve({
-          success: false,
-          error: error.message
-        });
+// One try at fetching a file. Resolves with the saved path; on failure nothing is left on disk.
+async function attemptDownload(
+  request: DownloadRequest,
+  filePath: string,
+  originalUrl: string,
+  rateLimiter: HostRateLimiter,
+  signal?: AbortSignal,
+  onChunk?: (bytes: number, totalBytes: number | null) => void
+): Promise<string> {
+  let url = request.url;
+  let headers: { [name: string]: string } = {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    ...request.headers
+  };
+  let response;
+
+  try {
+    for (let hop = 0; ; hop++) {
+      // Links come from users; only public https hosts are fetched, on every
+      // confirm hop and redirect
+      assertPublicUrl(url);
+      await rateLimiter.acquire(url, signal);
+      response = await axios({
+        method: 'GET',
+        url,
+        responseType: 'stream',
+        timeout: DOWNLOAD_TIMEOUT,
+        signal,
+        headers,
+        ...publicRequestOptions()
       });
-    });
 
+      // Providers answer with a web page instead of the file for private files,
+      // quota errors and virus-scan warnings. Plain links may really be pages.
+      const type = response.headers['content-type'] || '';
+      if (request.source === 'http' || !type.includes('text/html')) break;
+
+      const html = await readResponseText(response.data, MAX_HTML_BYTES);
+      const pageUrl = response.request?.res?.responseUrl || url;
+      const setCookies: string[] = response.headers['set-cookie'] || [];
+      const page = parseHtmlResponse(html, pageUrl, setCookies);
+
+      if (!page.confirmUrl || hop >= MAX_CONFIRM_HOPS) {
+        throw new DocumentDownloadError(page.reason, page.message);
+      }
+
+      // The confirm token is tied to the cookies of the warning page
+      url = page.confirmUrl;
+      headers = withCookies(headers, setCookies);
+    }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Download failed';
-    
-    emitProgress(io, jobId, 'document-fetcher:download-error', {
+    // Free the connection held by an unread error body
+    if (axios.isAxiosError(error)) error.response?.data?.destroy?.();
+    throw error;
+  }
+
+  // Exported formats are known up front; otherwise go by the response and URL.
+  // Either way the bytes have the final say once the file is written.
+  const contentType = response.headers['content-type'] || '';
+  const hint = request.extension ||
+    getFileExtension(contentType, originalUrl, response.headers['content-disposition'] || '');
+  const partFilePath = `${filePath}.part`;
+
+  if (onChunk) {
+    const contentLength = parseInt(response.headers['content-length'], 10);
+    const totalBytes = contentLength > 0 ? contentLength : null;
+    response.data.on('data', (chunk: Buffer) => onChunk(chunk.length, totalBytes));
+  }
+
+  try {
+    // Cancelling the job stops the transfer
+    await pipeline(response.data, fs.createWriteStream(partFilePath), { signal });
+
+    const detected = await detectFileTypeOfFile(partFilePath);
+    const extension = resolveExtension(detected, hint) || hint?.replace(/^\./, '') || 'bin';
+    const finalFilePath = `${filePath}.${extension}`;
+    await fs.move(partFilePath, finalFilePath, { overwrite: true });
+    return finalFilePath;
+  } catch (error) {
+    await fs.remove(partFilePath).catch(console.error);
+    throw error;
+  }
+}
+
+// Counts the bytes of one download attempt, feeds them to the job's throughput
+// and sends throttled download-progress events
+function trackTransfer(
+  io: SocketServer,
+  jobId: string,
+  regNo: string,
+  columnName: string,
+  attempt: number,
+  onBytes?: (bytes: number) => void
+): { onChunk: (bytes: number, totalBytes: number | null) => void; finish: () => void } {
+  let received = 0;
+  let total: number | null = null;
+  let lastEmitAt = Date.now();
+  let lastEmitBytes = 0;
+  let emitted = false;
+
+  const emit = (now: number) => {
+    // Speed since the previous event, so it follows stalls
+    const seconds = Math.max(now - lastEmitAt, 1) / 1000;
+
+    emitTransient(io, jobId, 'document-fetcher:download-progress', {
       jobId,
       regNo,
       column: columnName,
-      error: errorMessage,
-      timestamp: new Date().toISOString()
+      bytesReceived: received,
+      totalBytes: total,
+      // Content-Length counts compressed bytes, so cap at 100
+      percent: total ? Math.min(100, Math.round((received / total) * 1000) / 10) : null,
+      bytesPerSecond: Math.round((received - lastEmitBytes) / seconds),
+      attempt,
+      timestamp: new Date(now).toISOString()
     });
 
-    return {
-      success: false,
-      error: errorMessage
-    };
+    lastEmitAt = now;
+    lastEmitBytes = received;
+    emitted = true;
+  };
+
+  return {
+    onChunk: (bytes, totalBytes) => {
+      received += bytes;
+      total = totalBytes;
+      onBytes?.(bytes);
+
+      const now = Date.now();
+      if (now - lastEmitAt >= DOWNLOAD_PROGRESS_INTERVAL) emit(now);
+    },
+    // Files quick enough to show no progress don't get a final event either
+    finish: () => {
+      if (emitted) emit(Date.now());
+    }
+  };
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
   }
+  return hash.digest('hex');
+}
+
+// Read the start of a response body as text and close the stream
+function readResponseText(stream: Readable, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const done = () => resolve(Buffer.concat(chunks).toString('utf8'));
+
+    stream.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      size += chunk.length;
+      if (size >= maxBytes) {
+        stream.destroy();
+        done();
+      }
+    });
+    stream.on('end', done);
+    stream.on('error', reject);
+  });
+}
+
+// Add a response's Set-Cookie values to the Cookie header of the next request
+function withCookies(headers: { [name: string]: string }, setCookies: string[]): { [name: string]: string } {
+  const cookies = setCookies.map(cookie => cookie.split(';')[0].trim()).filter(Boolean);
+  if (cookies.length === 0) return headers;
+
+  return {
+    ...headers,
+    Cookie: [headers.Cookie, ...cookies].filter(Boolean).join('; ')
+  };
 }
 
-function getFileExtension(contentType: string, originalUrl: string): string {
-  if (contentType.includes('pdf')) return '.pdf';
-  if (contentType.includes('jpeg') || contentType.includes('jpg')) return '.jpg';
-  if (contentType.includes('png')) return '.png';
-  if (contentType.includes('image')) return '.jpg';
-  
-  // Try to guess from URL
-  if (originalUrl.toLowerCase().includes('.jpg') || originalUrl.toLowerCase().includes('.jpeg')) {
-    return '.jpg';
+// The type the server or link claims, as an extension; checked against the bytes later
+function getFileExtension(contentType: string, originalUrl: string, contentDisposition = ''): string | null {
+  // Dropbox, OneDrive and plain file servers usually send the original file name
+  const dispositionName = contentDisposition.match(/filename\*=(?:UTF-8'')?([^;]+)/i)?.[1] ||
+    contentDisposition.match(/filename="?([^";]+)"?/i)?.[1];
+  if (dispositionName) {
+    const extension = path.extname(safeDecode(dispositionName.trim())).toLowerCase();
+    if (/^\.[a-z0-9]{1,5}$/.test(extension)) return extension;
   }
-  if (originalUrl.toLowerCase().includes('.png')) {
-    return '.png';
+
+  // Generic types like application/octet-stream are not in the table
+  const fromType = fileTypeFor(contentType);
+  if (fromType) return fromType.extension;
+
+  // Try to guess from the URL path
+  try {
+    const fromUrl = fileTypeFor(path.extname(new URL(originalUrl).pathname));
+    if (fromUrl) return fromUrl.extension;
+  } catch {
+    // Not a URL; nothing to go on
+  }
+
+  return null;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
   }
-  
-  return '.pdf'; // Default
 }
 
 async function createZipArchive(jobId: string, results: DocumentFetcherResult[]): Promise<string> {
@@ -401,7 +902,8 @@ async function createZipArchive(jobId: string, results: DocumentFetcherResult[])
 
     // Add all downloaded files to the archive
     for (const result of results) {
-      if (result.status === 'success' && result.filePath) {
+      // Files from an earlier run may have been cleaned up since
+      if (hasDownload(result) && fs.existsSync(result.filePath)) {
         const fileName = path.basename(result.filePath);
         const folderName = path.basename(path.dirname(result.filePath));
         archive.file(result.filePath, { name: `${folderName}/${fileName}` });
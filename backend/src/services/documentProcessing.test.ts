@@ -0,0 +1,95 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { applyProcessingRule, validateProcessingRules } from './documentProcessing.js';
+import { DocumentFetcherConfig } from '../types/index.js';
+
+let dir: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'document-processing-'));
+});
+
+after(async () => {
+  await fs.remove(dir);
+});
+
+// Noise, so the encoder's quality setting changes the file size
+async function writePhoto(name: string, width = 120, height = 80): Promise<string> {
+  const filePath = path.join(dir, name);
+  await sharp({ create: { width, height, channels: 3, background: '#808080', noise: { type: 'gaussian', mean: 128, sigma: 40 } } })
+    .png()
+    .toFile(filePath);
+  return filePath;
+}
+
+function configWith(columnProcessing: unknown): DocumentFetcherConfig {
+  return {
+    columnMapping: { Photo: 'Photo' },
+    maxConcurrent: 5,
+    timeout: 30000,
+    autoOrganize: true,
+    columnProcessing
+  } as DocumentFetcherConfig;
+}
+
+test('rules must name mapped columns and use known settings', () => {
+  assert.equal(validateProcessingRules(configWith(undefined)), null);
+  assert.equal(validateProcessingRules(configWith({ Photo: { width: 300, height: 400, fit: 'cover', format: 'webp', quality: 80, maxBytes: 100000, trim: true } })), null);
+
+  assert.equal(validateProcessingRules(configWith(['Photo'])), 'columnProcessing must be an object of rules keyed by column');
+  assert.equal(validateProcessingRules(configWith({ Resume: {} })), 'columnProcessing has a rule for "Resume", which is not in columnMapping');
+  assert.equal(validateProcessingRules(configWith({ Photo: null })), 'columnProcessing["Photo"] must be an object');
+  assert.equal(validateProcessingRules(configWith({ Photo: { height: 20000 } })), 'columnProcessing["Photo"].height must be a whole number of pixels from 1 to 10000');
+  assert.equal(validateProcessingRules(configWith({ Photo: { fit: 'stretch' } })), 'columnProcessing["Photo"].fit must be one of cover, contain, fill, inside, outside');
+  assert.equal(validateProcessingRules(configWith({ Photo: { format: 'gif' } })), 'columnProcessing["Photo"].format must be one of jpeg, png, webp, avif');
+  assert.equal(validateProcessingRules(configWith({ Photo: { quality: 0 } })), 'columnProcessing["Photo"].quality must be a whole number from 1 to 100');
+  assert.equal(validateProcessingRules(configWith({ Photo: { maxBytes: 1.5 } })), 'columnProcessing["Photo"].maxBytes must be a positive whole number');
+  assert.equal(validateProcessingRules(configWith({ Photo: { trim: 'yes' } })), 'columnProcessing["Photo"].trim must be true or false');
+});
+
+test('a converted image replaces the download under its new extension', async () => {
+  const photo = await writePhoto('convert.png', 40, 20);
+  const processed = await applyProcessingRule(photo, { width: 60, height: 60, format: 'webp' });
+
+  assert.equal(processed.filePath, path.join(dir, 'convert.webp'));
+  assert.equal(await fs.pathExists(photo), false);
+  assert.deepEqual([processed.width, processed.height, processed.format], [60, 60, 'webp']);
+  assert.equal(processed.fileSize, (await fs.stat(processed.filePath)).size);
+  assert.equal((await sharp(processed.filePath).metadata()).format, 'webp');
+});
+
+test('the input format is kept when no format is given', async () => {
+  const photo = await writePhoto('keep.png');
+  const processed = await applyProcessingRule(photo, { width: 30 });
+
+  assert.equal(processed.filePath, photo);
+  assert.equal(processed.format, 'png');
+  assert.equal(processed.width, 30);
+});
+
+test('quality is lowered until the file fits maxBytes', async () => {
+  const photo = await writePhoto('large.png', 300, 200);
+  const best = (await sharp(photo).jpeg({ quality: 90 }).toBuffer()).length;
+  const smallest = (await sharp(photo).jpeg({ quality: 10 }).toBuffer()).length;
+  const maxBytes = Math.round((best + smallest) / 2);
+
+  const processed = await applyProcessingRule(photo, { format: 'jpeg', maxBytes });
+  assert.ok(processed.fileSize <= maxBytes);
+  assert.ok(processed.fileSize >= smallest);
+  assert.equal(processed.filePath, path.join(dir, 'large.jpg'));
+});
+
+test('files that are not images or cannot fit are refused', async () => {
+  const transcript = path.join(dir, 'transcript.pdf');
+  await fs.writeFile(transcript, '%PDF-1.4\n');
+  await assert.rejects(applyProcessingRule(transcript, { width: 100 }), { message: 'PDF file is not an image' });
+
+  const photo = await writePhoto('tiny.png');
+  await assert.rejects(applyProcessingRule(photo, { format: 'jpeg', maxBytes: 10 }), /^Error: Could not get the image under 10 bytes \(smallest was \d+\)$/);
+  // The download is left as it was
+  assert.equal(await fs.pathExists(photo), true);
+});
@@ -0,0 +1,116 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { IMAGE_FITS, IMAGE_FORMATS, ImageFormat, buildImagePipeline } from '../utils/imagePipeline.js';
+import { detectFileTypeOfFile, fileTypeFor } from '../utils/fileType.js';
+import { DocumentFetcherConfig, DocumentProcessingRule } from '../types/index.js';
+
+const MAX_DIMENSION = 10000;
+// Qualities tried in turn when a file is over maxBytes
+const QUALITY_STEP = 10;
+const MIN_QUALITY = 10;
+
+export interface ProcessedFile {
+  filePath: string;
+  fileSize: number;
+  width: number;
+  height: number;
+  format: ImageFormat;
+}
+
+// Returns an error message, or null when every rule can be used
+export function validateProcessingRules(config: DocumentFetcherConfig): string | null {
+  const rules = config.columnProcessing;
+  if (rules === undefined || rules === null) return null;
+  if (typeof rules !== 'object' || Array.isArray(rules)) {
+    return 'columnProcessing must be an object of rules keyed by column';
+  }
+
+  for (const [column, rule] of Object.entries(rules)) {
+    if (!config.columnMapping || !(column in config.columnMapping)) {
+      return `columnProcessing has a rule for "${column}", which is not in columnMapping`;
+    }
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      return `columnProcessing["${column}"] must be an object`;
+    }
+
+    const { width, height, fit, format, quality, maxBytes, trim } = rule;
+    for (const [name, value] of Object.entries({ width, height })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > MAX_DIMENSION)) {
+        return `columnProcessing["${column}"].${name} must be a whole number of pixels from 1 to ${MAX_DIMENSION}`;
+      }
+    }
+    if (fit !== undefined && !IMAGE_FITS.includes(fit)) {
+      return `columnProcessing["${column}"].fit must be one of ${IMAGE_FITS.join(', ')}`;
+    }
+    if (format !== undefined && !IMAGE_FORMATS.includes(format)) {
+      return `columnProcessing["${column}"].format must be one of ${IMAGE_FORMATS.join(', ')}`;
+    }
+    if (quality !== undefined && (!Number.isInteger(quality) || quality < 1 || quality > 100)) {
+      return `columnProcessing["${column}"].quality must be a whole number from 1 to 100`;
+    }
+    if (maxBytes !== undefined && (!Number.isInteger(maxBytes) || maxBytes < 1)) {
+      return `columnProcessing["${column}"].maxBytes must be a positive whole number`;
+    }
+    if (trim !== undefined && typeof trim !== 'boolean') {
+      return `columnProcessing["${column}"].trim must be true or false`;
+    }
+  }
+
+  return null;
+}
+
+// Rewrite a downloaded image according to its column's rule. The result
+// replaces the download, with a new extension when the format changed.
+// Throws when the file is not an image or cannot be brought under maxBytes.
+export async function applyProcessingRule(filePath: string, rule: DocumentProcessingRule): Promise<ProcessedFile> {
+  const detected = await detectFileTypeOfFile(filePath);
+  if (!detected || detected.category !== 'image') {
+    throw new Error(`${(detected?.extension || 'unknown').toUpperCase()} file is not an image`);
+  }
+
+  const input = await fs.readFile(filePath);
+  const inputFormat = (detected.extension === 'jpg' ? 'jpeg' : detected.extension) as ImageFormat;
+  const format = rule.format || (IMAGE_FORMATS.includes(inputFormat) ? inputFormat : 'jpeg');
+
+  let output: { data: Buffer; info: { width: number; height: number } } | undefined;
+  for (const step of encodingSteps(format, rule)) {
+    output = await buildImagePipeline(input, { ...rule, format, ...step, enlarge: true }).toBuffer({ resolveWithObject: true });
+    if (!rule.maxBytes || output.data.length <= rule.maxBytes) break;
+  }
+
+  if (rule.maxBytes && output.data.length > rule.maxBytes) {
+    throw new Error(`Could not get the image under ${rule.maxBytes} bytes (smallest was ${output.data.length})`);
+  }
+
+  const { dir, name } = path.parse(filePath);
+  const outputPath = path.join(dir, `${name}.${fileTypeFor(`image/${format}`).extension}`);
+  await fs.writeFile(outputPath, output.data);
+  if (outputPath !== filePath) {
+    await fs.remove(filePath);
+  }
+
+  return {
+    filePath: outputPath,
+    fileSize: output.data.length,
+    width: output.info.width,
+    height: output.info.height,
+    format
+  };
+}
+
+// Encoder settings to try, best first. Without maxBytes only the first is used.
+function encodingSteps(format: ImageFormat, rule: DocumentProcessingRule): Array<{ quality: number; palette?: boolean }> {
+  const quality = rule.quality || 90;
+  const qualities = [quality];
+  if (rule.maxBytes) {
+    for (let next = quality - QUALITY_STEP; next >= MIN_QUALITY; next -= QUALITY_STEP) {
+      qualities.push(next);
+    }
+  }
+
+  // PNG is lossless; quality only counts once it is reduced to a palette
+  if (format === 'png') {
+    return [{ quality }, ...(rule.maxBytes ? qualities.map(step => ({ quality: step, palette: true })) : [])];
+  }
+  return qualities.map(step => ({ quality: step }));
+}
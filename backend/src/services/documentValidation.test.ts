@@ -0,0 +1,90 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { checkDocument, summarizeViolations, validateColumnValidation } from './documentValidation.js';
+import { DocumentFetcherConfig, DocumentFetcherResult } from '../types/index.js';
+
+let dir: string;
+let photo: string;
+let transcript: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'document-validation-'));
+
+  photo = path.join(dir, 'photo.png');
+  await sharp({ create: { width: 40, height: 30, channels: 3, background: '#336699' } }).png().toFile(photo);
+
+  transcript = path.join(dir, 'transcript.pdf');
+  await fs.writeFile(transcript, `%PDF-1.4\n${'x'.repeat(2048)}`);
+});
+
+after(async () => {
+  await fs.remove(dir);
+});
+
+function configWith(columnValidation: unknown): DocumentFetcherConfig {
+  return {
+    columnMapping: { Photo: 'Photo', Transcript: 'Transcript' },
+    maxConcurrent: 5,
+    timeout: 30000,
+    autoOrganize: true,
+    columnValidation
+  } as DocumentFetcherConfig;
+}
+
+test('rules must name mapped columns and use known limits', () => {
+  assert.equal(validateColumnValidation(configWith(undefined)), null);
+  assert.equal(validateColumnValidation(configWith({ Photo: { allowedTypes: ['jpeg', '.png'], minWidth: 100, maxBytes: 500000 } })), null);
+
+  assert.equal(validateColumnValidation(configWith([])), 'columnValidation must be an object of rules keyed by column');
+  assert.equal(validateColumnValidation(configWith({ Resume: {} })), 'columnValidation has a rule for "Resume", which is not in columnMapping');
+  assert.equal(validateColumnValidation(configWith({ Photo: 'png' })), 'columnValidation["Photo"] must be an object');
+  assert.equal(validateColumnValidation(configWith({ Photo: { allowedTypes: [] } })), 'columnValidation["Photo"].allowedTypes must be a list of file extensions');
+  assert.equal(validateColumnValidation(configWith({ Photo: { allowedTypes: ['png', 'exe'] } })), 'Unknown file type exe in columnValidation["Photo"].allowedTypes');
+  assert.equal(validateColumnValidation(configWith({ Photo: { minWidth: 0 } })), 'columnValidation["Photo"].minWidth must be a positive whole number');
+  assert.equal(validateColumnValidation(configWith({ Photo: { minBytes: 10, maxBytes: 5 } })), 'columnValidation["Photo"].minBytes is larger than maxBytes');
+});
+
+test('a file that meets its rule has no warnings', async () => {
+  assert.deepEqual(await checkDocument(photo, { allowedTypes: ['png', 'jpg'], minWidth: 40, minHeight: 30, maxBytes: 100000 }), []);
+});
+
+test('type, size and dimension problems are all reported', async () => {
+  assert.deepEqual(await checkDocument(photo, { allowedTypes: ['pdf'], minBytes: 1024 * 1024, minWidth: 100 }), [
+    { violation: 'type', message: 'PNG file, expected PDF' },
+    { violation: 'min-bytes', message: `${(await fs.stat(photo)).size} B is under the 1.0 MB minimum` },
+    { violation: 'min-dimensions', message: '40×30 px image, needs at least 100 px wide' }
+  ]);
+
+  assert.deepEqual(await checkDocument(transcript, { allowedTypes: ['jpeg', 'png'], maxBytes: 1024 }), [
+    { violation: 'type', message: 'PDF file, expected JPG or PNG' },
+    { violation: 'max-bytes', message: '2 KB is over the 1 KB maximum' }
+  ]);
+});
+
+test('dimensions are only checked for images', async () => {
+  assert.deepEqual(await checkDocument(transcript, { minWidth: 1000, minHeight: 1000 }), []);
+});
+
+test('violations are counted per column', () => {
+  const result = (id: string, column: string, violations: string[]) => ({
+    id,
+    column,
+    status: violations.length ? 'warning' : 'success',
+    message: '',
+    warnings: violations.map(violation => ({ violation, message: violation }))
+  }) as DocumentFetcherResult;
+
+  assert.deepEqual(summarizeViolations([
+    result('1', 'Photo', ['type', 'min-dimensions']),
+    result('2', 'Photo', ['type']),
+    result('3', 'Photo', []),
+    result('4', 'Transcript', ['max-bytes'])
+  ]), {
+    Photo: { files: 2, byViolation: { type: 2, 'min-dimensions': 1 }, resultIds: ['1', '2'] },
+    Transcript: { files: 1, byViolation: { 'max-bytes': 1 }, resultIds: ['4'] }
+  });
+});
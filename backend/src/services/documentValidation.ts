@@ -0,0 +1,115 @@
+import fs from 'fs-extra';
+import path from 'path';
+import sharp from 'sharp';
+import { fileTypeFor } from '../utils/fileType.js';
+import {
+  DocumentColumnViolations,
+  DocumentFetcherConfig,
+  DocumentFetcherResult,
+  DocumentValidationRule,
+  DocumentValidationWarning
+} from '../types/index.js';
+
+// Returns an error message, or null when every rule can be used
+export function validateColumnValidation(config: DocumentFetcherConfig): string | null {
+  const rules = config.columnValidation;
+  if (rules === undefined || rules === null) return null;
+  if (typeof rules !== 'object' || Array.isArray(rules)) {
+    return 'columnValidation must be an object of rules keyed by column';
+  }
+
+  for (const [column, rule] of Object.entries(rules)) {
+    if (!config.columnMapping || !(column in config.columnMapping)) {
+      return `columnValidation has a rule for "${column}", which is not in columnMapping`;
+    }
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      return `columnValidation["${column}"] must be an object`;
+    }
+
+    const { allowedTypes, minBytes, maxBytes, minWidth, minHeight } = rule;
+    if (allowedTypes !== undefined) {
+      if (!Array.isArray(allowedTypes) || allowedTypes.length === 0) {
+        return `columnValidation["${column}"].allowedTypes must be a list of file extensions`;
+      }
+      const unknown = allowedTypes.filter(type => typeof type !== 'string' || !fileTypeFor(type));
+      if (unknown.length > 0) {
+        return `Unknown file type ${unknown.join(', ')} in columnValidation["${column}"].allowedTypes`;
+      }
+    }
+
+    for (const [name, value] of Object.entries({ minBytes, maxBytes, minWidth, minHeight })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        return `columnValidation["${column}"].${name} must be a positive whole number`;
+      }
+    }
+    if (minBytes !== undefined && maxBytes !== undefined && minBytes > maxBytes) {
+      return `columnValidation["${column}"].minBytes is larger than maxBytes`;
+    }
+  }
+
+  return null;
+}
+
+// Everything the file breaks in its column's rule; empty when it is fine
+export async function checkDocument(filePath: string, rule: DocumentValidationRule): Promise<DocumentValidationWarning[]> {
+  const warnings: DocumentValidationWarning[] = [];
+  // Downloads are named after their detected type
+  const type = fileTypeFor(path.extname(filePath));
+  const { size } = await fs.stat(filePath);
+
+  if (rule.allowedTypes) {
+    const allowed = rule.allowedTypes.map(allowedType => fileTypeFor(allowedType)?.extension);
+    if (!type || !allowed.includes(type.extension)) {
+      warnings.push({
+        violation: 'type',
+        message: `${(type?.extension || 'unknown').toUpperCase()} file, expected ${allowed.map(extension => extension.toUpperCase()).join(' or ')}`
+      });
+    }
+  }
+
+  if (rule.minBytes && size < rule.minBytes) {
+    warnings.push({ violation: 'min-bytes', message: `${formatSize(size)} is under the ${formatSize(rule.minBytes)} minimum` });
+  }
+  if (rule.maxBytes && size > rule.maxBytes) {
+    warnings.push({ violation: 'max-bytes', message: `${formatSize(size)} is over the ${formatSize(rule.maxBytes)} maximum` });
+  }
+
+  if ((rule.minWidth || rule.minHeight) && type?.category === 'image') {
+    const { width = 0, height = 0 } = await sharp(filePath).metadata().catch(() => ({ width: 0, height: 0 }));
+    if ((rule.minWidth && width < rule.minWidth) || (rule.minHeight && height < rule.minHeight)) {
+      warnings.push({
+        violation: 'min-dimensions',
+        message: `${width}×${height} px image, needs at least ${[
+          rule.minWidth && `${rule.minWidth} px wide`,
+          rule.minHeight && `${rule.minHeight} px high`
+        ].filter(Boolean).join(' and ')}`
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// Per-column counts of the results with warnings
+export function summarizeViolations(results: DocumentFetcherResult[]): { [column: string]: DocumentColumnViolations } {
+  const summary: { [column: string]: DocumentColumnViolations } = {};
+
+  for (const result of results) {
+    if (!result.warnings?.length) continue;
+
+    const column = summary[result.column] ||= { files: 0, byViolation: {}, resultIds: [] };
+    column.files++;
+    column.resultIds.push(result.id);
+    for (const { violation } of result.warnings) {
+      column.byViolation[violation] = (column.byViolation[violation] || 0) + 1;
+    }
+  }
+
+  return summary;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,151 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDownloadPool, createHostRateLimiter, validatePoolConfig } from './downloadPool.js';
+
+// A task that runs until it is finished by hand
+function manualTasks(count: number) {
+  const active = new Set<number>();
+  const started: number[] = [];
+  const finishers = new Map<number, (error?: Error) => void>();
+  let maxActive = 0;
+
+  const tasks = Array.from({ length: count }, (_, i) => () => new Promise<void>((resolve, reject) => {
+    active.add(i);
+    started.push(i);
+    maxActive = Math.max(maxActive, active.size);
+    finishers.set(i, (error) => {
+      active.delete(i);
+      if (error) reject(error);
+      else resolve();
+    });
+  }));
+
+  return { tasks, started, finish: (i: number, error?: Error) => finishers.get(i)(error), maxActive: () => maxActive };
+}
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+test('a finished task frees its slot straight away', async () => {
+  const pool = createDownloadPool(2);
+  const { tasks, started, finish, maxActive } = manualTasks(4);
+  const run = pool.run(tasks);
+
+  assert.deepEqual(started, [0, 1]);
+
+  // No waiting for the rest of a chunk: task 2 starts while task 0 still runs
+  finish(1);
+  await settle();
+  assert.deepEqual(started, [0, 1, 2]);
+
+  finish(0);
+  await settle();
+  finish(2);
+  finish(3);
+  await run;
+
+  assert.deepEqual(started, [0, 1, 2, 3]);
+  assert.equal(maxActive(), 2);
+});
+
+test('no new tasks start after an abort or a failure', async () => {
+  const controller = new AbortController();
+  const aborted = manualTasks(3);
+  const abortedRun = createDownloadPool(1).run(aborted.tasks, controller.signal);
+
+  controller.abort();
+  aborted.finish(0);
+  await abortedRun;
+  assert.deepEqual(aborted.started, [0]);
+
+  const failing = manualTasks(4);
+  const failingRun = createDownloadPool(2).run(failing.tasks);
+  failing.finish(0, new Error('disk full'));
+  await settle();
+
+  // The running task is waited for before the error is thrown
+  assert.deepEqual(failing.started, [0, 1]);
+  failing.finish(1);
+  await assert.rejects(failingRun, /disk full/);
+});
+
+test('adaptive concurrency backs off on throttling and recovers after successes', () => {
+  mock.method(console, 'log', () => {});
+
+  const pool = createDownloadPool(8, { adaptive: true });
+  pool.recordAttempt('rate-limited');
+  pool.recordAttempt('client-error');
+  pool.recordAttempt('timeout');
+  assert.equal(pool.concurrency(), 8);
+
+  pool.recordAttempt('rate-limited');
+  assert.equal(pool.concurrency(), 4);
+
+  // At least 10 successes in a row per step up; other errors break no streak but add nothing
+  for (let i = 0; i < 9; i++) pool.recordAttempt(null);
+  pool.recordAttempt('client-error');
+  assert.equal(pool.concurrency(), 4);
+  pool.recordAttempt(null);
+  assert.equal(pool.concurrency(), 5);
+
+  const fixed = createDownloadPool(8);
+  for (let i = 0; i < 5; i++) fixed.recordAttempt('rate-limited');
+  assert.equal(fixed.concurrency(), 8);
+
+  mock.restoreAll();
+});
+
+test('requests to one host are spread out after the burst', async (t) => {
+  mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+  t.after(() => mock.timers.reset());
+
+  const limiter = createHostRateLimiter(2, 2);
+  const granted: string[] = [];
+  const acquire = (url: string, signal?: AbortSignal) => limiter.acquire(url, signal).then(() => granted.push(url));
+
+  acquire('https://a.example/1');
+  acquire('https://a.example/2');
+  acquire('https://a.example/3');
+  acquire('https://b.example/1');
+  acquire('https://a.example/4');
+  await settle();
+  assert.deepEqual(granted, ['https://a.example/1', 'https://a.example/2', 'https://b.example/1']);
+
+  // Two per second once the burst is used up
+  mock.timers.tick(500);
+  await settle();
+  assert.deepEqual(granted.slice(3), ['https://a.example/3']);
+  mock.timers.tick(500);
+  await settle();
+  assert.deepEqual(granted.slice(3), ['https://a.example/3', 'https://a.example/4']);
+});
+
+test('an aborted wait gives its slot back', async (t) => {
+  mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+  t.after(() => mock.timers.reset());
+
+  const limiter = createHostRateLimiter(1, 1);
+  await limiter.acquire('https://a.example/1');
+
+  const controller = new AbortController();
+  const cancelled = limiter.acquire('https://a.example/2', controller.signal);
+  controller.abort();
+  await cancelled;
+
+  // Only the first request's second is owed, not the cancelled one's
+  let granted = false;
+  limiter.acquire('https://a.example/3').then(() => { granted = true; });
+  mock.timers.tick(1000);
+  await settle();
+  assert.equal(granted, true);
+
+  // A rate of 0 never waits
+  await createHostRateLimiter(0).acquire('https://a.example/');
+});
+
+test('pool settings are checked', () => {
+  assert.equal(validatePoolConfig({}), null);
+  assert.equal(validatePoolConfig({ hostRateLimit: 0, hostBurst: 5, adaptiveConcurrency: true }), null);
+  assert.equal(validatePoolConfig({ hostRateLimit: -1 }), 'hostRateLimit must be a number of requests per second from 0 to 1000');
+  assert.equal(validatePoolConfig({ hostBurst: 1.5 }), 'hostBurst must be a whole number from 1 to 1000');
+  assert.equal(validatePoolConfig({ adaptiveConcurrency: 'yes' }), 'adaptiveConcurrency must be true or false');
+});
@@ -0,0 +1,144 @@
+import { delay } from '../utils/delay.js';
+import { DocumentFetchErrorClass } from '../types/index.js';
+
+export const DEFAULT_HOST_RATE_LIMIT = 10;
+const MAX_HOST_RATE_LIMIT = 1000;
+
+// Adaptive concurrency: this many throttled attempts among the last
+// THROTTLE_WINDOW lowers the limit
+const THROTTLE_WINDOW = 20;
+const THROTTLE_THRESHOLD = 3;
+// Errors that mean the provider wants us to slow down
+const THROTTLE_CLASSES: DocumentFetchErrorClass[] = ['rate-limited', 'timeout'];
+// Successful attempts in a row before concurrency goes up by one (at least the current limit)
+const MIN_SUCCESS_STREAK = 10;
+
+export interface DownloadPool {
+  // Run the tasks with at most `concurrency` at a time, starting the next one
+  // as soon as any finishes. Stops starting tasks once the signal is aborted.
+  run: (tasks: Array<() => Promise<void>>, signal?: AbortSignal) => Promise<void>;
+  // Outcome of one download attempt (null for success), used by the adaptive mode
+  recordAttempt: (errorClass: DocumentFetchErrorClass | null) => void;
+  concurrency: () => number;
+}
+
+export interface HostRateLimiter {
+  // Wait for a request slot for the URL's host
+  acquire: (url: string, signal?: AbortSignal) => Promise<void>;
+}
+
+// With `adaptive`, concurrency is halved when 429s or timeouts pile up and
+// raised by one after a run of successful attempts, up to `maxConcurrency`.
+export function createDownloadPool(maxConcurrency: number, options: { adaptive?: boolean } = {}): DownloadPool {
+  let limit = Math.max(1, Math.floor(maxConcurrency));
+  const recent: boolean[] = [];
+  let successStreak = 0;
+  // Wakes the pool when the limit goes up
+  let wake: (() => void) | null = null;
+
+  const recordAttempt = (errorClass: DocumentFetchErrorClass | null) => {
+    if (!options.adaptive) return;
+
+    const throttled = errorClass !== null && THROTTLE_CLASSES.includes(errorClass);
+    recent.push(throttled);
+    if (recent.length > THROTTLE_WINDOW) recent.shift();
+
+    if (throttled) {
+      successStreak = 0;
+      if (recent.filter(Boolean).length >= THROTTLE_THRESHOLD && limit > 1) {
+        limit = Math.max(1, Math.floor(limit / 2));
+        recent.length = 0;
+        console.log(`📉 Lowering download concurrency to ${limit} after repeated rate limits/timeouts`);
+      }
+    } else if (errorClass === null && limit < maxConcurrency && ++successStreak >= Math.max(limit, MIN_SUCCESS_STREAK)) {
+      limit++;
+      successStreak = 0;
+      console.log(`📈 Raising download concurrency to ${limit}`);
+      wake?.();
+    }
+  };
+
+  const run = async (tasks: Array<() => Promise<void>>, signal?: AbortSignal) => {
+    const running = new Set<Promise<void>>();
+    let next = 0;
+    let failure: unknown;
+
+    while (true) {
+      while (!signal?.aborted && failure === undefined && next < tasks.length && running.size < limit) {
+        const task = tasks[next++]()
+          .catch((error) => {
+            failure ??= error;
+          })
+          .finally(() => running.delete(task));
+        running.add(task);
+      }
+
+      if (running.size === 0) break;
+
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+        Promise.race(running).then(resolve);
+      });
+      wake = null;
+    }
+
+    if (failure !== undefined) throw failure;
+  };
+
+  return { run, recordAttempt, concurrency: () => limit };
+}
+
+// Token bucket per host: up to `burst` requests at once, then `requestsPerSecond`.
+// A rate of 0 turns the limit off.
+export function createHostRateLimiter(requestsPerSecond: number, burst = Math.max(1, requestsPerSecond)): HostRateLimiter {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  const acquire = async (url: string, signal?: AbortSignal) => {
+    if (!requestsPerSecond) return;
+
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      return;
+    }
+
+    const now = Date.now();
+    const bucket = buckets.get(host) || { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * requestsPerSecond);
+    bucket.updatedAt = now;
+    buckets.set(host, bucket);
+
+    // Take the token now, even if that leaves the bucket in debt; waiters queue up in order
+    bucket.tokens -= 1;
+    if (bucket.tokens >= 0) return;
+
+    const waitMs = (-bucket.tokens / requestsPerSecond) * 1000;
+    const completed = await delay(waitMs, signal);
+    if (!completed) {
+      // Hand the slot back to the requests queued behind
+      bucket.tokens += 1;
+    }
+  };
+
+  return { acquire };
+}
+
+// Returns an error message, or null when the limits can be used
+export function validatePoolConfig(config: { hostRateLimit?: unknown; hostBurst?: unknown; adaptiveConcurrency?: unknown }): string | null {
+  const { hostRateLimit, hostBurst, adaptiveConcurrency } = config;
+
+  if (hostRateLimit !== undefined && (typeof hostRateLimit !== 'number' || !Number.isFinite(hostRateLimit) || hostRateLimit < 0 || hostRateLimit > MAX_HOST_RATE_LIMIT)) {
+    return `hostRateLimit must be a number of requests per second from 0 to ${MAX_HOST_RATE_LIMIT}`;
+  }
+
+  if (hostBurst !== undefined && (!Number.isInteger(hostBurst) || (hostBurst as number) < 1 || (hostBurst as number) > MAX_HOST_RATE_LIMIT)) {
+    return `hostBurst must be a whole number from 1 to ${MAX_HOST_RATE_LIMIT}`;
+  }
+
+  if (adaptiveConcurrency !== undefined && typeof adaptiveConcurrency !== 'boolean') {
+    return 'adaptiveConcurrency must be true or false';
+  }
+
+  return null;
+}
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AxiosError, AxiosHeaders } from 'axios';
+import {
+  DEFAULT_RETRY_POLICY,
+  classifyDownloadError,
+  nextRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  validateRetryPolicy
+} from './downloadRetry.js';
+import { BlockedAddressError } from '../utils/networkGuard.js';
+
+function httpError(status: number, headers: { [name: string]: string } = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(`HTTP ${status}`, 'ERR_BAD_RESPONSE', config, undefined, {
+    status,
+    statusText: '',
+    headers,
+    config,
+    data: null
+  });
+}
+
+test('resolveRetryPolicy keeps defaults for the fields left out', () => {
+  assert.deepEqual(resolveRetryPolicy(), DEFAULT_RETRY_POLICY);
+  assert.deepEqual(resolveRetryPolicy({ maxAttempts: 5, jitter: false }), {
+    ...DEFAULT_RETRY_POLICY,
+    maxAttempts: 5,
+    jitter: false
+  });
+  assert.equal(resolveRetryPolicy({ baseDelayMs: 0 }).baseDelayMs, 0);
+});
+
+test('validateRetryPolicy reports the first bad field', () => {
+  assert.equal(validateRetryPolicy(undefined), null);
+  assert.equal(validateRetryPolicy({ maxAttempts: 3, retryOn: ['timeout'] }), null);
+  assert.equal(validateRetryPolicy([]), 'retryPolicy must be an object');
+  assert.match(validateRetryPolicy({ maxAttempts: 0 }), /maxAttempts/);
+  assert.match(validateRetryPolicy({ maxDelayMs: -1 }), /maxDelayMs/);
+  assert.match(validateRetryPolicy({ retryOn: ['sometimes'] }), /Unknown error class sometimes/);
+});
+
+test('backoff doubles per attempt up to maxDelayMs', () => {
+  const policy = resolveRetryPolicy({ maxAttempts: 6, baseDelayMs: 1000, maxDelayMs: 5000, jitter: false });
+
+  assert.deepEqual(
+    [1, 2, 3, 4, 5].map(attempt => nextRetryDelay(policy, attempt, 'timeout')),
+    [1000, 2000, 4000, 5000, 5000]
+  );
+  assert.equal(nextRetryDelay(policy, 6, 'timeout'), null);
+});
+
+test('jitter stays in the upper half of the backoff', () => {
+  const policy = resolveRetryPolicy({ baseDelayMs: 1000 });
+
+  for (let i = 0; i < 50; i++) {
+    const delay = nextRetryDelay(policy, 2, 'network');
+    assert.ok(delay >= 1000 && delay <= 2000, String(delay));
+  }
+});
+
+test('only the listed error classes are retried', () => {
+  const policy = resolveRetryPolicy({ retryOn: ['rate-limited'] });
+  assert.equal(nextRetryDelay(policy, 1, 'server-error'), null);
+  assert.notEqual(nextRetryDelay(policy, 1, 'rate-limited'), null);
+});
+
+test('Retry-After replaces the backoff unless it is too long', () => {
+  const policy = resolveRetryPolicy({ maxRetryAfterMs: 10000 });
+  assert.equal(nextRetryDelay(policy, 1, 'rate-limited', 7000), 7000);
+  assert.equal(nextRetryDelay(policy, 1, 'rate-limited', 20000), null);
+});
+
+test('parseRetryAfter reads seconds and HTTP dates', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+  assert.equal(parseRetryAfter('120', now), 120000);
+  assert.equal(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now), 30000);
+  assert.equal(parseRetryAfter('Tue, 31 Dec 2024 00:00:00 GMT', now), 0);
+  assert.equal(parseRetryAfter('soon', now), undefined);
+  assert.equal(parseRetryAfter(undefined, now), undefined);
+});
+
+test('classifyDownloadError sorts failures into retry classes', () => {
+  assert.deepEqual(classifyDownloadError(httpError(429, { 'retry-after': '3' })), { errorClass: 'rate-limited', retryAfterMs: 3000 });
+  assert.deepEqual(classifyDownloadError(httpError(502)), { errorClass: 'server-error', retryAfterMs: undefined });
+  assert.deepEqual(classifyDownloadError(httpError(404)), { errorClass: 'client-error' });
+  assert.deepEqual(classifyDownloadError(Object.assign(new Error('reset'), { code: 'ECONNRESET' })), { errorClass: 'network' });
+  assert.deepEqual(classifyDownloadError(Object.assign(new Error('full'), { code: 'ENOSPC' })), { errorClass: 'file-system' });
+  assert.deepEqual(classifyDownloadError(new BlockedAddressError('private')), { errorClass: 'client-error' });
+  assert.deepEqual(classifyDownloadError(new Error('odd')), { errorClass: 'unknown' });
+});
@@ -0,0 +1,152 @@
+import axios from 'axios';
+import { DocumentDownloadError } from './driveInterstitial.js';
+import { DocumentFetchErrorClass, DocumentFetcherRetryPolicy } from '../types/index.js';
+
+export type RetryPolicy = Required<DocumentFetcherRetryPolicy>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: true,
+  maxRetryAfterMs: 60000,
+  retryOn: ['timeout', 'network', 'rate-limited', 'server-error']
+};
+
+const MAX_ATTEMPTS_LIMIT = 10;
+const MAX_DELAY_LIMIT = 10 * 60 * 1000;
+
+const ERROR_CLASSES: DocumentFetchErrorClass[] = [
+  'timeout', 'network', 'rate-limited', 'server-error', 'client-error',
+  'html-response', 'file-system', 'cancelled', 'unknown'
+];
+
+const NETWORK_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH',
+  'ENETUNREACH', 'ERR_STREAM_PREMATURE_CLOSE', 'ERR_SOCKET_CONNECTION_TIMEOUT'
+];
+const FILE_SYSTEM_CODES = ['ENOSPC', 'EACCES', 'EPERM', 'EROFS', 'EMFILE', 'EISDIR', 'ENOTDIR', 'EDQUOT'];
+
+// Returns an error message, or null when the policy can be used
+export function validateRetryPolicy(policy: unknown): string | null {
+  if (policy === undefined || policy === null) return null;
+  if (typeof policy !== 'object' || Array.isArray(policy)) {
+    return 'retryPolicy must be an object';
+  }
+
+  const { maxAttempts, baseDelayMs, maxDelayMs, jitter, maxRetryAfterMs, retryOn } = policy as DocumentFetcherRetryPolicy;
+
+  if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_ATTEMPTS_LIMIT)) {
+    return `retryPolicy.maxAttempts must be a whole number from 1 to ${MAX_ATTEMPTS_LIMIT}`;
+  }
+
+  for (const [name, value] of Object.entries({ baseDelayMs, maxDelayMs, maxRetryAfterMs })) {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_DELAY_LIMIT)) {
+      return `retryPolicy.${name} must be a number of milliseconds from 0 to ${MAX_DELAY_LIMIT}`;
+    }
+  }
+
+  if (jitter !== undefined && typeof jitter !== 'boolean') {
+    return 'retryPolicy.jitter must be true or false';
+  }
+
+  if (retryOn !== undefined) {
+    if (!Array.isArray(retryOn)) {
+      return 'retryPolicy.retryOn must be an array of error classes';
+    }
+    const unknown = retryOn.filter(errorClass => !ERROR_CLASSES.includes(errorClass));
+    if (unknown.length > 0) {
+      return `Unknown error class ${unknown.join(', ')} in retryPolicy.retryOn. Use ${ERROR_CLASSES.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+// Fields left out of `policy` keep their defaults
+export function resolveRetryPolicy(policy?: DocumentFetcherRetryPolicy): RetryPolicy {
+  const { maxAttempts, baseDelayMs, maxDelayMs, jitter, maxRetryAfterMs, retryOn } = policy || {};
+  return {
+    maxAttempts: maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    baseDelayMs: baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    maxRetryAfterMs: maxRetryAfterMs ?? DEFAULT_RETRY_POLICY.maxRetryAfterMs,
+    retryOn: retryOn ?? DEFAULT_RETRY_POLICY.retryOn
+  };
+}
+
+// Sort a failed attempt into an error class. `retryAfterMs` is set when a 429
+// or 503 response said how long to wait.
+export function classifyDownloadError(error: unknown): { errorClass: DocumentFetchErrorClass; retryAfterMs?: number } {
+  if (axios.isCancel(error) || (error instanceof Error && error.name === 'AbortError')) {
+    return { errorClass: 'cancelled' };
+  }
+
+  if (error instanceof DocumentDownloadError) {
+    return { errorClass: 'html-response' };
+  }
+
+  // Private or non-https address; asking again won't change the answer
+  if ((error as NodeJS.ErrnoException)?.code === 'ERR_BLOCKED_ADDRESS') {
+    return { errorClass: 'client-error' };
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status) {
+      const retryAfterMs = status === 429 || status === 503
+        ? parseRetryAfter(error.response.headers['retry-after'])
+        : undefined;
+
+      if (status === 429) return { errorClass: 'rate-limited', retryAfterMs };
+      if (status >= 500) return { errorClass: 'server-error', retryAfterMs };
+      return { errorClass: 'client-error' };
+    }
+
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') return { errorClass: 'timeout' };
+  }
+
+  const code = (error as NodeJS.ErrnoException)?.code;
+  if (code === 'ETIMEDOUT') return { errorClass: 'timeout' };
+  if (code && NETWORK_CODES.includes(code)) return { errorClass: 'network' };
+  if (code && FILE_SYSTEM_CODES.includes(code)) return { errorClass: 'file-system' };
+  // No response at all, e.g. the connection dropped
+  if (axios.isAxiosError(error)) return { errorClass: 'network' };
+
+  return { errorClass: 'unknown' };
+}
+
+// Retry-After is either seconds or an HTTP date
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Milliseconds to wait before the next attempt, or null when `attempt` was the last one
+export function nextRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  errorClass: DocumentFetchErrorClass,
+  retryAfterMs?: number
+): number | null {
+  if (attempt >= policy.maxAttempts || !policy.retryOn.includes(errorClass)) {
+    return null;
+  }
+
+  // The server knows best when it will have capacity again
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs > policy.maxRetryAfterMs ? null : retryAfterMs;
+  }
+
+  // 1s, 2s, 4s, ... capped; with jitter somewhere in the upper half
+  const backoff = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(policy.jitter ? backoff / 2 + Math.random() * backoff / 2 : backoff);
+}
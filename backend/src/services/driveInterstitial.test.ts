@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseHtmlResponse, reasonForStatus } from './driveInterstitial.js';
+
+const PAGE_URL = 'https://drive.google.com/uc?export=download&id=abc123';
+
+test('the current Drive virus-scan form becomes a confirm URL', () => {
+  const html = `
+    <html><body>
+      <form id="download-form" action="https://drive.usercontent.google.com/download" method="get">
+        <input type="submit" value="Download anyway">
+        <input type="hidden" name="id" value="abc123">
+        <input type="hidden" name="export" value="download">
+        <input type="hidden" name="confirm" value="t">
+        <input type="hidden" name="uuid" value="u-1&amp;2">
+      </form>
+    </body></html>`;
+
+  const { confirmUrl, reason } = parseHtmlResponse(html, PAGE_URL);
+  assert.equal(reason, 'needs-confirmation');
+
+  const url = new URL(confirmUrl);
+  assert.equal(url.origin + url.pathname, 'https://drive.usercontent.google.com/download');
+  assert.deepEqual(Object.fromEntries(url.searchParams), { id: 'abc123', export: 'download', confirm: 't', uuid: 'u-1&2' });
+});
+
+test('older pages use a download link or a cookie', () => {
+  const link = parseHtmlResponse('<a id="uc-download-link" href="/uc?export=download&amp;confirm=Xy_1&amp;id=abc123">Download anyway</a>', PAGE_URL);
+  assert.equal(link.confirmUrl, 'https://drive.google.com/uc?export=download&confirm=Xy_1&id=abc123');
+
+  const cookie = parseHtmlResponse('<html>Google Drive can\'t scan this file for viruses.</html>', PAGE_URL, [
+    'NID=1; Path=/',
+    'download_warning_13058876669334088843_abc123=Zq9; Domain=.drive.google.com; Path=/uc'
+  ]);
+  assert.equal(cookie.confirmUrl, 'https://drive.google.com/uc?export=download&id=abc123&confirm=Zq9');
+});
+
+test('error pages are sorted by reason', () => {
+  assert.equal(parseHtmlResponse('<p>Sorry, you can\'t view or download this file at this time. Too many users have viewed or downloaded this file recently.</p>', PAGE_URL).reason, 'quota-exceeded');
+  assert.equal(parseHtmlResponse('<title>Google Drive - Page Not Found</title>', PAGE_URL).reason, 'not-found');
+  assert.equal(parseHtmlResponse('<h1>You need access</h1><a>Request access</a>', PAGE_URL).reason, 'permission-denied');
+  assert.equal(parseHtmlResponse('<html></html>', 'https://accounts.google.com/v3/signin/identifier?continue=x').reason, 'permission-denied');
+  assert.equal(parseHtmlResponse('<p>Download anyway</p>', PAGE_URL).confirmUrl, undefined);
+  assert.equal(parseHtmlResponse('<p>Download anyway</p>', PAGE_URL).reason, 'needs-confirmation');
+  assert.deepEqual(parseHtmlResponse('<html><body>Welcome</body></html>', PAGE_URL), {
+    reason: 'unexpected-html',
+    message: 'Received a web page instead of a file'
+  });
+});
+
+test('forms that are not downloads are ignored', () => {
+  const html = '<form action="https://www.google.com/search"><input type="hidden" name="q" value="x"></form>';
+  assert.equal(parseHtmlResponse(html, PAGE_URL).confirmUrl, undefined);
+});
+
+test('HTTP statuses map to failure reasons', () => {
+  assert.equal(reasonForStatus(403), 'permission-denied');
+  assert.equal(reasonForStatus(410), 'not-found');
+  assert.equal(reasonForStatus(429), 'quota-exceeded');
+  assert.equal(reasonForStatus(500), undefined);
+  assert.equal(reasonForStatus(undefined), undefined);
+});
@@ -0,0 +1,136 @@
+import { DocumentFetchFailureReason } from '../types/index.js';
+
+// A download that failed for a known reason
+export class DocumentDownloadError extends Error {
+  reason: DocumentFetchFailureReason;
+
+  constructor(reason: DocumentFetchFailureReason, message: string) {
+    super(message);
+    this.name = 'DocumentDownloadError';
+    this.reason = reason;
+  }
+}
+
+// What an HTML page returned instead of a file means
+export interface HtmlResponse {
+  // Follow this to get the file (Drive virus-scan warning)
+  confirmUrl?: string;
+  reason: DocumentFetchFailureReason;
+  message: string;
+}
+
+const PAGE_PATTERNS: Array<{ reason: DocumentFetchFailureReason; message: string; pattern: RegExp }> = [
+  {
+    reason: 'quota-exceeded',
+    message: 'Download quota exceeded: too many users have downloaded this file recently',
+    pattern: /too many users have viewed or downloaded|download quota|quota (has been )?exceeded/i
+  },
+  {
+    reason: 'not-found',
+    message: 'File not found or deleted',
+    pattern: /does not exist|page not found|file (has been )?(deleted|removed)|error 404/i
+  },
+  {
+    reason: 'permission-denied',
+    message: 'Permission denied: the file is not shared publicly',
+    pattern: /you need access|request access|you need permission|servicelogin|accounts\.google\.com\/(v3\/)?signin|sign in - google accounts|access denied/i
+  },
+  {
+    reason: 'needs-confirmation',
+    message: 'Download needs a confirmation that could not be completed',
+    pattern: /can.t scan this file for viruses|virus scan warning|download anyway|download-form|confirm=/i
+  }
+];
+
+export function reasonForStatus(status: number | undefined): DocumentFetchFailureReason | undefined {
+  if (status === 401 || status === 403) return 'permission-denied';
+  if (status === 404 || status === 410) return 'not-found';
+  if (status === 429) return 'quota-exceeded';
+  return undefined;
+}
+
+// Work out why a file link answered with HTML. `setCookies` are the response's
+// Set-Cookie headers, which carry the confirm token on older Drive pages.
+export function parseHtmlResponse(html: string, pageUrl: string, setCookies: string[] = []): HtmlResponse {
+  const confirmUrl = findConfirmUrl(html, pageUrl, setCookies);
+  if (confirmUrl) {
+    return { confirmUrl, reason: 'needs-confirmation', message: PAGE_PATTERNS[3].message };
+  }
+
+  // Private files redirect to the Google sign-in page
+  if (/^https?:\/\/accounts\.google\.com\//i.test(pageUrl)) {
+    return { reason: 'permission-denied', message: PAGE_PATTERNS[2].message };
+  }
+
+  for (const { reason, message, pattern } of PAGE_PATTERNS) {
+    if (pattern.test(html)) return { reason, message };
+  }
+
+  return { reason: 'unexpected-html', message: 'Received a web page instead of a file' };
+}
+
+function findConfirmUrl(html: string, pageUrl: string, setCookies: string[]): string | undefined {
+  // Current Drive: <form id="download-form" action="https://drive.usercontent.google.com/download">
+  // with the id, export, confirm and uuid as hidden inputs
+  for (const form of html.matchAll(/<form\b([^>]*)>([\s\S]*?)<\/form>/gi)) {
+    const action = getAttribute(form[1], 'action');
+    if (!action || !/download|\/uc\b/i.test(action)) continue;
+
+    const url = resolveUrl(action, pageUrl);
+    if (!url) continue;
+
+    for (const input of form[2].matchAll(/<input\b([^>]*)>/gi)) {
+      const name = getAttribute(input[1], 'name');
+      if (name && /type\s*=\s*["']?hidden/i.test(input[1])) {
+        url.searchParams.set(name, getAttribute(input[1], 'value') ?? '');
+      }
+    }
+
+    if (url.searchParams.has('confirm') || url.searchParams.has('id')) {
+      return url.toString();
+    }
+  }
+
+  // Older Drive: a "Download anyway" link with a confirm token
+  const link = html.match(/href\s*=\s*["']([^"']*(?:[?&]|&amp;)confirm=[^"']+)["']/i);
+  if (link) {
+    return resolveUrl(decodeEntities(link[1]), pageUrl)?.toString();
+  }
+
+  // Oldest Drive: the token only comes in a download_warning cookie
+  for (const cookie of setCookies) {
+    const token = cookie.match(/^download_warning[^=]*=([^;]+)/);
+    if (token) {
+      const url = resolveUrl(pageUrl, pageUrl);
+      url?.searchParams.set('confirm', token[1]);
+      return url?.toString();
+    }
+  }
+
+  return undefined;
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  if (!match) return undefined;
+  return decodeEntities(match[1] ?? match[2] ?? match[3]);
+}
+
+function resolveUrl(href: string, base: string): URL | null {
+  try {
+    return new URL(href, base);
+  } catch {
+    return null;
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, "'")
+    .replace(/&#x2F;|&#47;/gi, '/')
+    .replace(/&#x3D;|&#61;/gi, '=')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
@@ -0,0 +1,187 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import type { SocketServer } from '../socket/socketHandlers.js';
+import { JobTool } from '../types/index.js';
+
+// Read when the module loads
+process.env.JOB_QUEUE_CONCURRENCY = '2';
+process.env.JOB_QUEUE_CONCURRENCY_QR_CODE = '1';
+process.env.JOB_QUEUE_MAX_SIZE = '3';
+process.env.JOB_QUEUE_RETRY_AFTER = '7';
+
+let queue: typeof import('./jobQueue.js');
+let registry: typeof import('./jobRegistry.js');
+let server: Server;
+let baseUrl: string;
+
+const io = {
+  to: () => ({ emit: () => true, volatile: { emit: () => true } })
+} as unknown as SocketServer;
+
+before(async () => {
+  // The queue logs every start; interleaved with the runner's reports it can garble them
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+
+  queue = await import('./jobQueue.js');
+  registry = await import('./jobRegistry.js');
+
+  const qrCode = await import('../routes/qrCode.js');
+  qrCode.setSocketIO(io);
+  const app = express();
+  app.use(express.json());
+  app.use('/api/qr-code', qrCode.default);
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+interface TestJob {
+  started: boolean;
+  signal?: AbortSignal;
+  finish: () => void;
+}
+
+// Submits a job that runs until finish() is called or its signal is aborted
+function submit(jobId: string, tool: JobTool, onAbort?: (signal: AbortSignal) => void): TestJob {
+  const job: TestJob = { started: false, finish: () => {} };
+
+  queue.submitJob({
+    jobId,
+    tool,
+    total: 1,
+    io,
+    run: signal => new Promise<void>(resolve => {
+      job.started = true;
+      job.signal = signal;
+      job.finish = resolve;
+
+      const stop = () => {
+        onAbort?.(signal);
+        resolve();
+      };
+      if (signal.aborted) stop();
+      signal.addEventListener('abort', stop);
+    })
+  });
+  return job;
+}
+
+// Lets finished runs release their slots
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+test('jobs wait for both the global and their tool limit', async () => {
+  const qr1 = submit('limits-qr-1', 'qr-code');
+  const qr2 = submit('limits-qr-2', 'qr-code');
+  const password1 = submit('limits-password-1', 'password-generator');
+  const password2 = submit('limits-password-2', 'password-generator');
+
+  // One QR code job at a time, two jobs overall
+  assert.deepEqual([qr1.started, qr2.started, password1.started, password2.started], [true, false, true, false]);
+  assert.equal(queue.getQueueStats().running, 2);
+  assert.equal(registry.getJob('limits-qr-2').status, 'queued');
+  assert.equal(registry.getJob('limits-qr-2').queuePosition, 1);
+
+  // The freed slot goes to the first job its tool limit allows
+  password1.finish();
+  await settle();
+  assert.deepEqual([qr2.started, password2.started], [false, true]);
+
+  qr1.finish();
+  await settle();
+  assert.equal(qr2.started, true);
+
+  qr2.finish();
+  password2.finish();
+  await settle();
+  assert.deepEqual(queue.getQueueStats(), { running: 0, queued: 0, concurrency: 2, maxQueueSize: 3 });
+});
+
+test('a job cancelled while queued cleans up without taking a slot', async () => {
+  const running1 = submit('cancel-running-1', 'password-generator');
+  const running2 = submit('cancel-running-2', 'password-generator');
+  const queued = submit('cancel-queued', 'password-generator');
+  const next = submit('cancel-next', 'password-generator');
+
+  assert.equal(queue.abortJob('cancel-queued'), true);
+  assert.equal(queue.abortJob('cancel-queued'), false);
+
+  // Its runner saw the aborted signal, but the running count never went over the limit
+  assert.equal(queued.started, true);
+  assert.equal(queued.signal.aborted, true);
+  assert.equal(queue.isShutdownAbort(queued.signal), false);
+  assert.deepEqual(queue.getQueueStats(), { running: 2, queued: 1, concurrency: 2, maxQueueSize: 3 });
+  assert.equal(registry.getJob('cancel-next').queuePosition, 1);
+
+  running1.finish();
+  await settle();
+  assert.equal(next.started, true);
+
+  running2.finish();
+  next.finish();
+  await settle();
+  assert.equal(queue.getQueueStats().running, 0);
+});
+
+test('a full queue is refused with a 503 and Retry-After', async () => {
+  const jobs = ['full-1', 'full-2', 'full-3', 'full-4', 'full-5'].map(jobId => submit(jobId, 'password-generator'));
+  assert.deepEqual(queue.getQueueStats(), { running: 2, queued: 3, concurrency: 2, maxQueueSize: 3 });
+
+  assert.throws(() => submit('full-6', 'password-generator'), (error: InstanceType<typeof queue.QueueFullError>) => {
+    assert.ok(error instanceof queue.QueueFullError);
+    assert.equal(error.statusCode, 503);
+    assert.equal(error.retryAfter, 7);
+    return true;
+  });
+  assert.equal(registry.getJob('full-6'), undefined);
+
+  const response = await fetch(`${baseUrl}/api/qr-code/generate-bulk`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ configs: [{ type: 'text', content: 'hello' }] })
+  });
+  assert.equal(response.status, 503);
+  assert.equal(response.headers.get('retry-after'), '7');
+  assert.equal((await response.json()).success, false);
+
+  for (const job of jobs) {
+    job.finish();
+    await settle();
+  }
+  assert.equal(queue.getQueueStats().running, 0);
+});
+
+// Runs last: a drained queue stays closed
+test('shutdown lets jobs finish, then checkpoints resumable ones', async () => {
+  queue.registerJobResumer('document-fetcher', () => true);
+
+  const quick = submit('drain-quick', 'password-generator');
+  const slow = submit('drain-slow', 'document-fetcher', signal => {
+    if (queue.isShutdownAbort(signal)) registry.interruptJob('drain-slow', ['row-2']);
+  });
+  const parked = submit('drain-parked', 'document-fetcher');
+  const dropped = submit('drain-dropped', 'password-generator');
+
+  setTimeout(() => quick.finish(), 10);
+  await queue.drainJobQueue(50);
+
+  // The quick job finished in time; the slow one was interrupted and checkpointed
+  assert.equal(queue.isShutdownAbort(slow.signal), true);
+  assert.equal(registry.getJob('drain-slow').status, 'interrupted');
+  assert.deepEqual(registry.getJob('drain-slow').checkpoint.remainingIds, ['row-2']);
+
+  // Queued jobs are parked if their tool can resume them, otherwise cancelled
+  assert.equal(parked.started, false);
+  assert.equal(registry.getJob('drain-parked').status, 'interrupted');
+  assert.equal(dropped.started, true);
+  assert.equal(dropped.signal.aborted, true);
+  assert.equal(queue.getQueueStats().running, 0);
+
+  assert.throws(() => submit('drain-late', 'password-generator'), queue.ShuttingDownError);
+});
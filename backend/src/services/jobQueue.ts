@@ -0,0 +1,287 @@
+import { emitProgress, SocketServer } from '../socket/socketHandlers.js';
+import { createJob, getJob, reopenJob, queueJob, interruptJob, listInterruptedJobs, failJob } from './jobRegistry.js';
+import { JobStatus, JobTool } from '../types/index.js';
+
+const GLOBAL_CONCURRENCY = parseInt(process.env.JOB_QUEUE_CONCURRENCY || '2');
+const MAX_QUEUE_SIZE = parseInt(process.env.JOB_QUEUE_MAX_SIZE || '50');
+const RETRY_AFTER_SECONDS = parseInt(process.env.JOB_QUEUE_RETRY_AFTER || '30');
+// How long running jobs get to stop after being told the server is shutting down
+const SHUTDOWN_ABORT_GRACE = 5000;
+// Passed as the abort reason, so runners can tell a shutdown from a user cancel
+const SHUTDOWN_REASON = 'shutdown';
+
+// Per-tool limits, e.g. JOB_QUEUE_CONCURRENCY_DOCUMENT_FETCHER=1
+const TOOLS: JobTool[] = ['document-fetcher', 'file-converter', 'image-resizer', 'qr-code', 'password-generator'];
+const TOOL_CONCURRENCY = Object.fromEntries(
+  TOOLS.map(tool => {
+    const envKey = `JOB_QUEUE_CONCURRENCY_${tool.toUpperCase().replace(/-/g, '_')}`;
+    return [tool, parseInt(process.env[envKey] || String(GLOBAL_CONCURRENCY))];
+  })
+) as Record<JobTool, number>;
+
+export class QueueFullError extends Error {
+  statusCode = 503;
+  retryAfter = RETRY_AFTER_SECONDS;
+
+  constructor() {
+    super('Server is busy. Too many jobs are queued, please try again later.');
+    this.name = 'QueueFullError';
+  }
+}
+
+export class ShuttingDownError extends QueueFullError {
+  constructor() {
+    super();
+    this.message = 'Server is restarting, please try again shortly.';
+    this.name = 'ShuttingDownError';
+  }
+}
+
+export class JobIdInUseError extends Error {
+  statusCode = 409;
+
+  constructor(jobId: string) {
+    super(`Job ID ${jobId} is already in use`);
+    this.name = 'JobIdInUseError';
+  }
+}
+
+interface QueuedJob {
+  jobId: string;
+  tool: JobTool;
+  total: number;
+  input?: { [key: string]: any };
+  callbackUrl?: string;
+  // Run again under an existing finished job (retries)
+  reopen?: boolean;
+  io: SocketServer;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+const waiting: QueuedJob[] = [];
+const running = new Map<string, JobTool>();
+const controllers = new Map<string, AbortController>();
+const runs = new Map<string, Promise<void>>();
+// Puts an interrupted job back in the queue. Returns false if it cannot be resumed.
+const resumers = new Map<JobTool, (job: JobStatus) => boolean>();
+let draining = false;
+
+// Submit a bulk job. Throws QueueFullError when the queue cannot take more work.
+export function submitJob(job: QueuedJob): { queuePosition: number; accessToken: string } {
+  if (draining) {
+    throw new ShuttingDownError();
+  }
+
+  if (waiting.length >= MAX_QUEUE_SIZE) {
+    throw new QueueFullError();
+  }
+
+  const existing = getJob(job.jobId);
+  if (existing && !job.reopen) {
+    throw new JobIdInUseError(job.jobId);
+  }
+
+  // Retries run again under the jobId and access token of the finished job
+  let accessToken: string;
+  if (existing) {
+    reopenJob(job.jobId, job.total);
+    accessToken = existing.accessToken;
+  } else {
+    accessToken = createJob(job.jobId, job.tool, job.total, {
+      input: job.input,
+      callbackUrl: job.callbackUrl
+    }).accessToken;
+  }
+  controllers.set(job.jobId, new AbortController());
+  waiting.push(job);
+
+  processQueue();
+
+  const index = waiting.indexOf(job);
+  return { queuePosition: index === -1 ? 0 : index + 1, accessToken };
+}
+
+// Cancel a queued or running job. Returns false if the job is not active.
+// The job's own runner sees the aborted signal, stops, cleans up and emits `<tool>:cancelled`.
+export function abortJob(jobId: string): boolean {
+  const controller = controllers.get(jobId);
+  if (!controller || controller.signal.aborted) {
+    return false;
+  }
+
+  controller.abort();
+
+  // A job that never started still runs once, so it can clean up its uploads
+  const index = waiting.findIndex(job => job.jobId === jobId);
+  if (index !== -1) {
+    const [job] = waiting.splice(index, 1);
+    runCancelledJob(job);
+    emitQueuePositions();
+  }
+
+  console.log(`⏹️ Cancellation requested for job ${jobId}`);
+  return true;
+}
+
+// True when a job's signal was aborted because the server is shutting down.
+// The runner should checkpoint with interruptJob() instead of cancelling.
+export function isShutdownAbort(signal?: AbortSignal): boolean {
+  return Boolean(signal?.aborted && signal.reason === SHUTDOWN_REASON);
+}
+
+export function registerJobResumer(tool: JobTool, resumer: (job: JobStatus) => boolean): void {
+  resumers.set(tool, resumer);
+}
+
+// Stop accepting jobs and give running ones up to `timeoutMs` to finish.
+// Jobs still running after that are aborted and checkpoint themselves if their
+// tool can be resumed; queued jobs of resumable tools are parked untouched.
+export async function drainJobQueue(timeoutMs: number): Promise<void> {
+  draining = true;
+
+  for (const job of waiting.splice(0)) {
+    if (resumers.has(job.tool)) {
+      interruptJob(job.jobId);
+      controllers.delete(job.jobId);
+    } else {
+      controllers.get(job.jobId)?.abort();
+      runCancelledJob(job);
+    }
+  }
+
+  // Cancelled jobs still cleaning up are in `runs` but not `running`
+  if (runs.size === 0) return;
+
+  console.log(`⏳ Waiting up to ${timeoutMs}ms for ${running.size} running jobs`);
+  if (await settleWithin(timeoutMs)) return;
+
+  console.log(`⏹️ Interrupting ${running.size} jobs that did not finish in time`);
+  for (const controller of controllers.values()) {
+    controller.abort(SHUTDOWN_REASON);
+  }
+
+  if (!await settleWithin(SHUTDOWN_ABORT_GRACE)) {
+    console.error(`${running.size} jobs did not stop, they will be marked failed on the next start`);
+  }
+}
+
+// Resume jobs interrupted by the last shutdown, under their original jobId
+export function resumeInterruptedJobs(): void {
+  for (const job of listInterruptedJobs()) {
+    const resumer = resumers.get(job.tool);
+    let resumed = false;
+
+    try {
+      resumed = resumer ? resumer(job) : false;
+    } catch (error) {
+      console.error(`Error resuming job ${job.jobId}:`, error);
+    }
+
+    if (resumed) {
+      console.log(`🔁 Resumed ${job.tool} job ${job.jobId}`);
+    } else {
+      failJob(job.jobId, 'Server restarted before the job finished');
+    }
+  }
+}
+
+async function settleWithin(timeoutMs: number): Promise<boolean> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<boolean>(resolve => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  const settled = Promise.all(runs.values()).then(() => true);
+
+  const result = await Promise.race([settled, timeout]);
+  clearTimeout(timer);
+  return result;
+}
+
+export function getQueueStats(): {
+  running: number;
+  queued: number;
+  concurrency: number;
+  maxQueueSize: number;
+} {
+  return {
+    running: running.size,
+    queued: waiting.length,
+    concurrency: GLOBAL_CONCURRENCY,
+    maxQueueSize: MAX_QUEUE_SIZE
+  };
+}
+
+function countRunning(tool: JobTool): number {
+  let count = 0;
+  for (const runningTool of running.values()) {
+    if (runningTool === tool) count++;
+  }
+  return count;
+}
+
+function processQueue(): void {
+  if (draining) return;
+
+  for (let i = 0; i < waiting.length && running.size < GLOBAL_CONCURRENCY; ) {
+    const job = waiting[i];
+
+    if (countRunning(job.tool) >= TOOL_CONCURRENCY[job.tool]) {
+      i++;
+      continue;
+    }
+
+    waiting.splice(i, 1);
+    startQueuedJob(job);
+  }
+
+  emitQueuePositions();
+}
+
+function startQueuedJob(job: QueuedJob): void {
+  running.set(job.jobId, job.tool);
+  console.log(`▶️ Starting ${job.tool} job ${job.jobId} (${running.size} running, ${waiting.length} queued)`);
+
+  const controller = controllers.get(job.jobId) || new AbortController();
+
+  trackRun(job, controller.signal, () => {
+    running.delete(job.jobId);
+    processQueue();
+  });
+}
+
+// Runs a queued job whose signal is already aborted, so it only cleans up.
+// It does no work, so it takes no slot from the global or per-tool limits.
+function runCancelledJob(job: QueuedJob): void {
+  trackRun(job, controllers.get(job.jobId).signal, () => {});
+}
+
+function trackRun(job: QueuedJob, signal: AbortSignal, onSettled: () => void): void {
+  const run = job.run(signal)
+    .catch(error => {
+      console.error(`Unhandled error in ${job.tool} job ${job.jobId}:`, error);
+    })
+    .finally(() => {
+      controllers.delete(job.jobId);
+      runs.delete(job.jobId);
+      onSettled();
+    });
+  runs.set(job.jobId, run);
+}
+
+function emitQueuePositions(): void {
+  waiting.forEach((job, index) => {
+    const queuePosition = index + 1;
+    queueJob(job.jobId, queuePosition);
+
+    emitProgress(job.io, job.jobId, `${job.tool}:progress`, {
+      jobId: job.jobId,
+      status: 'queued',
+      queuePosition,
+      queueLength: waiting.length,
+      current: 0,
+      total: job.total,
+      progress: 0,
+      timestamp: new Date().toISOString()
+    });
+  });
+}
@@ -0,0 +1,184 @@
+import path from 'path';
+import crypto from 'crypto';
+import { JobStore, ACTIVE_JOB_STATUSES } from './jobStore.js';
+import { createMemoryJobStore } from './memoryJobStore.js';
+import { createSqliteJobStore } from './sqliteJobStore.js';
+import { JobStatus, JobTool, ProcessingResult, WebhookDelivery } from '../types/index.js';
+
+const DATA_DIR = process.env.DATA_DIR || 'data';
+const JOB_STORE = process.env.JOB_STORE || 'sqlite';
+const JOB_STORE_PATH = process.env.JOB_STORE_PATH || path.join(DATA_DIR, 'jobs.db');
+const JOB_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours, same as the download cleanup
+const EXPIRE_INTERVAL = 60 * 60 * 1000;
+// Identifies this server across restarts, so it only recovers its own interrupted jobs.
+// Not the hostname: hosts like Render give every restart and deploy a new one.
+const INSTANCE_ID = process.env.INSTANCE_ID || 'local';
+
+let store: JobStore = createMemoryJobStore();
+let expireTimer: NodeJS.Timeout | null = null;
+
+// Open the configured job store on startup (JOB_STORE=sqlite|memory)
+export async function initJobStore(): Promise<void> {
+  if (JOB_STORE === 'sqlite') {
+    store = createSqliteJobStore(JOB_STORE_PATH);
+  } else if (JOB_STORE !== 'memory') {
+    throw new Error(`Unknown JOB_STORE "${JOB_STORE}", expected "sqlite" or "memory"`);
+  }
+
+  expireJobs();
+  expireTimer = setInterval(expireJobs, EXPIRE_INTERVAL);
+  expireTimer.unref();
+
+  // Work that was running when this server stopped without a checkpoint will never finish
+  const abandoned = store.list({ statuses: ACTIVE_JOB_STATUSES })
+    .filter(job => !job.instanceId || job.instanceId === INSTANCE_ID);
+
+  for (const job of abandoned) {
+    store.finish(job.jobId, 'failed', { error: 'Server restarted before the job finished' });
+  }
+
+  console.log(`🗂️ Job store: ${JOB_STORE}${JOB_STORE === 'sqlite' ? ` (${JOB_STORE_PATH})` : ''}, ${store.list().length} jobs, ${abandoned.length} abandoned`);
+}
+
+export function closeJobStore(): void {
+  if (expireTimer) {
+    clearInterval(expireTimer);
+    expireTimer = null;
+  }
+  store.close();
+}
+
+function expireJobs(): void {
+  const expired = store.expire(new Date(Date.now() - JOB_MAX_AGE));
+  if (expired > 0) {
+    console.log(`🗑️ Expired ${expired} old jobs`);
+  }
+}
+
+export function createJob(
+  jobId: string,
+  tool: JobTool,
+  total: number,
+  options: { input?: { [key: string]: any }; callbackUrl?: string } = {}
+): JobStatus {
+  const timestamp = new Date().toISOString();
+  const job: JobStatus = {
+    jobId,
+    tool,
+    accessToken: crypto.randomBytes(24).toString('hex'),
+    status: 'pending',
+    progress: 0,
+    total,
+    current: 0,
+    results: [],
+    startTime: timestamp,
+    updatedAt: timestamp,
+    instanceId: INSTANCE_ID
+  };
+  if (options.input) job.input = options.input;
+  if (options.callbackUrl) job.callbackUrl = options.callbackUrl;
+
+  store.create(job);
+  return job;
+}
+
+// Put a finished job back into the pending state so more work can run under the same jobId
+export function reopenJob(jobId: string, total: number): void {
+  store.update(jobId, {
+    status: 'pending',
+    total,
+    current: 0,
+    progress: 0,
+    endTime: undefined,
+    error: undefined,
+    checkpoint: undefined,
+    instanceId: INSTANCE_ID
+  });
+}
+
+export function getJob(jobId: string): JobStatus | undefined {
+  return store.get(jobId);
+}
+
+// Check the access token handed out when the job was created
+export function verifyJobToken(jobId: string, token: unknown): boolean {
+  const job = store.get(jobId);
+  if (!job?.accessToken || typeof token !== 'string') return false;
+
+  const expected = Buffer.from(job.accessToken);
+  const given = Buffer.from(token);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+// Job data that is safe to send back to the owner of the job
+export function toPublicJob(job: JobStatus): Omit<JobStatus, 'accessToken' | 'input'> {
+  const { accessToken, input, ...publicJob } = job;
+  return publicJob;
+}
+
+export function listJobs(tool?: JobTool): JobStatus[] {
+  return store.list({ tool });
+}
+
+export function queueJob(jobId: string, queuePosition: number): void {
+  store.update(jobId, { status: 'queued', queuePosition });
+}
+
+export function startJob(jobId: string, total?: number): void {
+  store.update(jobId, {
+    status: 'processing',
+    queuePosition: undefined,
+    ...(total !== undefined && { total })
+  });
+}
+
+export function updateJobProgress(jobId: string, current: number, total?: number): void {
+  store.updateProgress(jobId, current, total);
+}
+
+export function addJobResult(jobId: string, result: ProcessingResult): void {
+  store.appendResult(jobId, result);
+}
+
+export function removeJobResults(jobId: string, resultIds: string[]): void {
+  store.removeResults(jobId, resultIds);
+}
+
+// Park a job stopped by a shutdown so the next server start can resume it
+export function interruptJob(jobId: string, remainingIds?: string[]): void {
+  store.update(jobId, {
+    status: 'interrupted',
+    queuePosition: undefined,
+    checkpoint: { remainingIds, interruptedAt: new Date().toISOString() }
+  });
+}
+
+// Interrupted jobs that this instance should resume
+export function listInterruptedJobs(): JobStatus[] {
+  return store.list({ statuses: ['interrupted'] })
+    .filter(job => !job.instanceId || job.instanceId === INSTANCE_ID)
+    .map(job => store.get(job.jobId));
+}
+
+export function completeJob(jobId: string, output?: { [key: string]: any }): void {
+  store.finish(jobId, 'completed', { output });
+}
+
+export function failJob(jobId: string, error: any): void {
+  store.finish(jobId, 'failed', { error: error instanceof Error ? error.message : String(error) });
+}
+
+export function cancelJob(jobId: string, output?: { [key: string]: any }): void {
+  store.finish(jobId, 'cancelled', { output });
+}
+
+export function setJobEventSeq(jobId: string, seq: number): void {
+  store.update(jobId, { lastEventSeq: seq });
+}
+
+export function addWebhookDelivery(jobId: string, delivery: WebhookDelivery): void {
+  const job = store.get(jobId);
+  if (!job) return;
+
+  store.update(jobId, { webhookDeliveries: [...(job.webhookDeliveries || []), delivery] });
+}
@@ -0,0 +1,29 @@
+import { JobStatus, JobTool, ProcessingResult } from '../types/index.js';
+
+export type FinishedJobStatus = 'completed' | 'failed' | 'cancelled';
+
+// Storage behind the job registry. Calls are synchronous so the registry API
+// stays synchronous for the routes and background jobs that use it.
+// Stores set `updatedAt` on every write to the job itself; appending or
+// removing results leaves it alone.
+export interface JobStore {
+  create(job: JobStatus): void;
+  get(jobId: string): JobStatus | undefined;
+  // Shallow merge; keys set to undefined are removed
+  update(jobId: string, changes: Partial<JobStatus>): void;
+  updateProgress(jobId: string, current: number, total?: number): void;
+  appendResult(jobId: string, result: ProcessingResult): void;
+  removeResults(jobId: string, resultIds: string[]): void;
+  finish(jobId: string, status: FinishedJobStatus, details?: { output?: { [key: string]: any }; error?: string }): void;
+  // Jobs without their input and results; get() returns a whole job
+  list(filter?: { tool?: JobTool; statuses?: JobStatus['status'][] }): JobStatus[];
+  // Delete finished jobs last updated before `cutoff`. Returns how many were deleted.
+  expire(cutoff: Date): number;
+  close(): void;
+}
+
+export const ACTIVE_JOB_STATUSES: JobStatus['status'][] = ['pending', 'queued', 'processing'];
+
+export function progressFor(current: number, total: number): number {
+  return total > 0 ? Math.min((current / total) * 100, 100) : 0;
+}
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryJobStore } from './memoryJobStore.js';
+
+test('update merges changes and removes keys set to undefined', () => {
+  const store = createMemoryJobStore();
+  const timestamp = new Date().toISOString();
+  store.create({
+    jobId: 'job-1',
+    tool: 'qr-code',
+    accessToken: 'token',
+    status: 'queued',
+    queuePosition: 2,
+    progress: 0,
+    total: 1,
+    current: 0,
+    results: [],
+    startTime: timestamp,
+    updatedAt: timestamp
+  });
+
+  store.update('job-1', { status: 'processing', queuePosition: undefined, total: 4 });
+
+  const job = store.get('job-1');
+  assert.equal(job.status, 'processing');
+  assert.equal(job.total, 4);
+  assert.equal('queuePosition' in job, false);
+
+  store.close();
+});
+
+test('writes to an unknown job are ignored', () => {
+  const store = createMemoryJobStore();
+
+  store.appendResult('nope', { id: 'a', status: 'success', message: 'ok' });
+  store.updateProgress('nope', 1);
+  store.removeResults('nope', ['a']);
+  assert.equal(store.get('nope'), undefined);
+});
@@ -0,0 +1,99 @@
+import { JobStore, ACTIVE_JOB_STATUSES, progressFor } from './jobStore.js';
+import { JobStatus } from '../types/index.js';
+
+// Keeps jobs in process memory only. Job history is lost on restart.
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, JobStatus>();
+
+  const touch = (job: JobStatus) => {
+    job.updatedAt = new Date().toISOString();
+  };
+
+  return {
+    create(job) {
+      jobs.set(job.jobId, job);
+    },
+
+    get(jobId) {
+      return jobs.get(jobId);
+    },
+
+    update(jobId, changes) {
+      const job = jobs.get(jobId);
+      if (!job) return;
+
+      mergeChanges(job, changes);
+      touch(job);
+    },
+
+    updateProgress(jobId, current, total) {
+      const job = jobs.get(jobId);
+      if (!job) return;
+
+      job.current = current;
+      if (total !== undefined) job.total = total;
+      job.progress = progressFor(current, job.total);
+      touch(job);
+    },
+
+    appendResult(jobId, result) {
+      const job = jobs.get(jobId);
+      if (!job) return;
+
+      job.results.push(result);
+    },
+
+    removeResults(jobId, resultIds) {
+      const job = jobs.get(jobId);
+      if (!job) return;
+
+      const ids = new Set(resultIds);
+      job.results = job.results.filter(result => !ids.has(result.id));
+    },
+
+    finish(jobId, status, details = {}) {
+      const job = jobs.get(jobId);
+      if (!job) return;
+
+      job.status = status;
+      job.endTime = new Date().toISOString();
+      delete job.queuePosition;
+      if (status === 'completed') job.progress = 100;
+      if (details.output) job.output = details.output;
+      if (details.error) job.error = details.error;
+      touch(job);
+    },
+
+    list(filter = {}) {
+      return Array.from(jobs.values())
+        .filter(job =>
+          (!filter.tool || job.tool === filter.tool) &&
+          (!filter.statuses || filter.statuses.includes(job.status))
+        )
+        .map(({ input, results, ...job }) => ({ ...job, results: [] }));
+    },
+
+    expire(cutoff) {
+      let deleted = 0;
+      for (const [jobId, job] of jobs) {
+        if (!ACTIVE_JOB_STATUSES.includes(job.status) && new Date(job.updatedAt) < cutoff) {
+          jobs.delete(jobId);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+
+    close() {
+      jobs.clear();
+    }
+  };
+}
+
+// Shallow merge that removes the keys set to undefined
+function mergeChanges(job: JobStatus, changes: Partial<JobStatus>): void {
+  Object.assign(job, changes);
+  for (const key of Object.keys(changes) as Array<keyof JobStatus>) {
+    if (changes[key] === undefined) delete job[key];
+  }
+}
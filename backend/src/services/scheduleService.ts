@@ -0,0 +1,401 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { processExcelFile, retryFromCheckpoint } from './documentFetcherService.js';
+import { getJob, failJob } from './jobRegistry.js';
+import { submitJob, abortJob } from './jobQueue.js';
+import { getNextCronRun } from '../utils/cron.js';
+import { emitProgress, emitError, SocketServer } from '../socket/socketHandlers.js';
+import {
+  DocumentFetcherConfig,
+  DocumentFetcherResult,
+  DocumentFetcherRetry,
+  DocumentFetcherSchedule,
+  DocumentFetcherScheduleRun,
+  JobStatus,
+  StudentRecord
+} from '../types/index.js';
+
+const DATA_DIR = process.env.DATA_DIR || 'data';
+const SCHEDULES_FILE = path.join(DATA_DIR, 'schedules.json');
+// Kept outside DOWNLOAD_DIR so the 24 hour download cleanup leaves them alone
+const SCHEDULE_RESULTS_DIR = path.join(DATA_DIR, 'schedules');
+const PERSIST_DELAY = 1000;
+const DEFAULT_KEEP_RUNS = parseInt(process.env.SCHEDULE_KEEP_RUNS || '5');
+export const MAX_KEEP_RUNS = 50;
+// setTimeout cannot wait longer than ~24.8 days, so long waits are re-armed daily
+const MAX_TIMER_DELAY = 24 * 60 * 60 * 1000;
+
+const schedules = new Map<string, DocumentFetcherSchedule>();
+const timers = new Map<string, NodeJS.Timeout>();
+let persistTimer: NodeJS.Timeout | null = null;
+let io: SocketServer;
+
+export function setSocketIO(socketIO: SocketServer) {
+  io = socketIO;
+}
+
+// Load persisted schedules on startup and arm their timers.
+// Runs missed while the server was down are not caught up.
+export async function loadSchedules(): Promise<void> {
+  try {
+    await fs.ensureDir(DATA_DIR);
+
+    if (!await fs.pathExists(SCHEDULES_FILE)) {
+      return;
+    }
+
+    const stored: DocumentFetcherSchedule[] = await fs.readJson(SCHEDULES_FILE);
+
+    for (const schedule of stored) {
+      for (const run of schedule.runs) {
+        // Interrupted runs are resumed along with their job
+        if (getJob(run.jobId)?.status === 'interrupted') continue;
+
+        if (run.status === 'queued' || run.status === 'processing') {
+          run.status = 'failed';
+          run.error = 'Server restarted before the job finished';
+          run.endTime = new Date().toISOString();
+        }
+      }
+
+      schedules.set(schedule.id, schedule);
+      armSchedule(schedule);
+    }
+
+    console.log(`⏰ Loaded ${schedules.size} schedules from ${SCHEDULES_FILE}`);
+    schedulePersist();
+  } catch (error) {
+    console.error('Error loading schedules:', error);
+  }
+}
+
+// Write the schedules to disk immediately
+export async function flushSchedules(): Promise<void> {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+
+  try {
+    await fs.ensureDir(DATA_DIR);
+    const tmpFile = `${SCHEDULES_FILE}.tmp`;
+    await fs.writeJson(tmpFile, Array.from(schedules.values()));
+    await fs.move(tmpFile, SCHEDULES_FILE, { overwrite: true });
+  } catch (error) {
+    console.error('Error saving schedules:', error);
+  }
+}
+
+function schedulePersist(): void {
+  if (persistTimer) return;
+
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    flushSchedules();
+  }, PERSIST_DELAY);
+}
+
+export function createSchedule(options: {
+  name: string;
+  cron: string;
+  data: StudentRecord[];
+  config: DocumentFetcherConfig;
+  keepRuns?: number;
+  callbackUrl?: string;
+}): DocumentFetcherSchedule {
+  const now = new Date().toISOString();
+  const schedule: DocumentFetcherSchedule = {
+    id: `schedule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    accessToken: createAccessToken(),
+    name: options.name,
+    cron: options.cron,
+    data: options.data,
+    config: options.config,
+    keepRuns: options.keepRuns || DEFAULT_KEEP_RUNS,
+    paused: false,
+    callbackUrl: options.callbackUrl,
+    createdAt: now,
+    updatedAt: now,
+    runs: []
+  };
+
+  schedules.set(schedule.id, schedule);
+  armSchedule(schedule);
+  touch(schedule);
+
+  console.log(`⏰ Created schedule "${schedule.name}" (${schedule.cron}), next run ${schedule.nextRunAt}`);
+  return schedule;
+}
+
+export function getSchedule(id: string): DocumentFetcherSchedule | undefined {
+  return schedules.get(id);
+}
+
+// Schedules whose access token is among `tokens`
+export function listSchedules(tokens: string[]): DocumentFetcherSchedule[] {
+  return Array.from(schedules.values())
+    .filter(schedule => tokens.some(token => verifyScheduleToken(schedule.id, token)))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Check the access token handed out when the schedule was created
+export function verifyScheduleToken(id: string, token: unknown): boolean {
+  const schedule = schedules.get(id);
+  if (!schedule?.accessToken || typeof token !== 'string') return false;
+
+  const expected = Buffer.from(schedule.accessToken);
+  const given = Buffer.from(token);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+function createAccessToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+// Schedule as returned to its owner: the spreadsheet rows are summarised and
+// each run carries the access token of its job. Run results are left out
+// unless `includeResults` is set.
+export function toPublicSchedule(schedule: DocumentFetcherSchedule, includeResults = false) {
+  const { data, runs, accessToken, ...rest } = schedule;
+  return {
+    ...rest,
+    totalRecords: data.length,
+    runs: runs.map(({ results, zipPath, ...run }) => ({
+      ...run,
+      hasZip: Boolean(zipPath),
+      ...(includeResults ? { results } : {})
+    }))
+  };
+}
+
+export function pauseSchedule(id: string): DocumentFetcherSchedule | undefined {
+  const schedule = schedules.get(id);
+  if (!schedule) return undefined;
+
+  schedule.paused = true;
+  disarmSchedule(schedule);
+  touch(schedule);
+  return schedule;
+}
+
+export function resumeSchedule(id: string): DocumentFetcherSchedule | undefined {
+  const schedule = schedules.get(id);
+  if (!schedule) return undefined;
+
+  schedule.paused = false;
+  armSchedule(schedule);
+  touch(schedule);
+  return schedule;
+}
+
+// Remove a schedule, cancel its active run and delete its stored result sets
+export async function deleteSchedule(id: string): Promise<boolean> {
+  const schedule = schedules.get(id);
+  if (!schedule) return false;
+
+  disarmSchedule(schedule);
+  schedules.delete(id);
+  schedulePersist();
+
+  for (const run of schedule.runs) {
+    if (run.status === 'queued' || run.status === 'processing') {
+      abortJob(run.jobId);
+    }
+  }
+
+  await fs.remove(path.join(SCHEDULE_RESULTS_DIR, id));
+  console.log(`🗑️ Deleted schedule "${schedule.name}"`);
+  return true;
+}
+
+function armSchedule(schedule: DocumentFetcherSchedule): void {
+  disarmSchedule(schedule);
+
+  if (schedule.paused) {
+    schedule.nextRunAt = undefined;
+    return;
+  }
+
+  const nextRun = getNextCronRun(schedule.cron);
+  schedule.nextRunAt = nextRun?.toISOString();
+  if (!nextRun) return;
+
+  waitUntil(schedule.id, nextRun.getTime());
+}
+
+function waitUntil(id: string, time: number): void {
+  const delay = Math.min(Math.max(time - Date.now(), 0), MAX_TIMER_DELAY);
+
+  timers.set(id, setTimeout(() => {
+    timers.delete(id);
+    const schedule = schedules.get(id);
+    if (!schedule || schedule.paused) return;
+
+    if (Date.now() < time) {
+      waitUntil(id, time);
+      return;
+    }
+
+    triggerSchedule(schedule);
+    armSchedule(schedule);
+    touch(schedule);
+  }, delay));
+}
+
+function disarmSchedule(schedule: DocumentFetcherSchedule): void {
+  const timer = timers.get(schedule.id);
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(schedule.id);
+  }
+}
+
+function triggerSchedule(schedule: DocumentFetcherSchedule): void {
+  const activeRun = schedule.runs.find(run => run.status === 'queued' || run.status === 'processing');
+  if (activeRun) {
+    console.log(`⏭️ Skipping schedule "${schedule.name}": job ${activeRun.jobId} is still running`);
+    return;
+  }
+
+  if (!io) {
+    console.error(`Cannot run schedule "${schedule.name}": Socket.IO not initialized`);
+    return;
+  }
+
+  const jobId = `doc-fetch-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const run: DocumentFetcherScheduleRun = {
+    jobId,
+    status: 'queued',
+    startTime: new Date().toISOString(),
+    results: []
+  };
+
+  schedule.runs.push(run);
+  schedule.lastRunAt = run.startTime;
+
+  try {
+    run.accessToken = submitJob({
+      jobId,
+      tool: 'document-fetcher',
+      total: schedule.data.length,
+      input: { data: schedule.data, config: schedule.config, scheduleId: schedule.id },
+      callbackUrl: schedule.callbackUrl,
+      io,
+      run: (signal) => runScheduledJob(schedule, run, signal)
+    }).accessToken;
+
+    console.log(`⏰ Schedule "${schedule.name}" started job ${jobId}`);
+  } catch (error) {
+    console.error(`Error starting schedule "${schedule.name}":`, error);
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : 'Failed to start scheduled job';
+    run.endTime = new Date().toISOString();
+  }
+
+  pruneRuns(schedule).catch(error => {
+    console.error(`Error pruning runs of schedule "${schedule.name}":`, error);
+  });
+}
+
+// Continue a scheduled run that was interrupted by a server restart
+export function resumeScheduledRun(job: JobStatus): boolean {
+  const schedule = schedules.get(job.input?.scheduleId);
+  const run = schedule?.runs.find(scheduleRun => scheduleRun.jobId === job.jobId);
+  if (!schedule || !run || !io) return false;
+
+  const retry = retryFromCheckpoint(job);
+  run.status = 'queued';
+
+  submitJob({
+    jobId: job.jobId,
+    tool: 'document-fetcher',
+    total: retry ? retry.resultIds.length : schedule.data.length,
+    reopen: true,
+    io,
+    run: (signal) => runScheduledJob(schedule, run, signal, retry)
+  });
+
+  touch(schedule);
+  return true;
+}
+
+async function runScheduledJob(
+  schedule: DocumentFetcherSchedule,
+  run: DocumentFetcherScheduleRun,
+  signal: AbortSignal,
+  retry?: DocumentFetcherRetry
+): Promise<void> {
+  const { jobId } = run;
+  run.status = 'processing';
+  touch(schedule);
+
+  try {
+    emitProgress(io, jobId, 'document-fetcher:start', {
+      jobId,
+      totalRecords: schedule.data.length,
+      config: schedule.config,
+      scheduleId: schedule.id,
+      timestamp: new Date().toISOString()
+    });
+
+    await processExcelFile(schedule.data, schedule.config, jobId, io, signal, retry);
+  } catch (error) {
+    console.error(`Error in scheduled job ${jobId}:`, error);
+    failJob(jobId, error);
+    emitError(io, jobId, 'document-fetcher:error', error);
+  }
+
+  await recordRunResult(schedule, run);
+}
+
+// Copy the finished job's results and ZIP into the schedule's history
+async function recordRunResult(schedule: DocumentFetcherSchedule, run: DocumentFetcherScheduleRun): Promise<void> {
+  const job = getJob(run.jobId);
+  if (job?.status === 'interrupted') {
+    touch(schedule);
+    return;
+  }
+
+  const results = (job?.results || []) as DocumentFetcherResult[];
+
+  run.status = job && job.status !== 'processing' && job.status !== 'pending' && job.status !== 'queued'
+    ? job.status
+    : 'failed';
+  run.endTime = job?.endTime || new Date().toISOString();
+  run.error = job?.error;
+  run.results = results;
+  run.totalProcessed = results.filter(result => result.status === 'success' || result.status === 'warning').length;
+  run.totalFailed = results.filter(result => result.status === 'failed').length;
+  run.totalSkipped = results.filter(result => result.status === 'skipped').length;
+  run.totalWarnings = results.filter(result => result.status === 'warning').length;
+
+  const zipPath = job?.output?.zipPath;
+  if (zipPath && schedules.has(schedule.id) && await fs.pathExists(zipPath)) {
+    try {
+      const storedZip = path.join(SCHEDULE_RESULTS_DIR, schedule.id, `${run.jobId}.zip`);
+      await fs.copy(zipPath, storedZip);
+      run.zipPath = storedZip;
+    } catch (error) {
+      console.error(`Error storing ZIP of scheduled job ${run.jobId}:`, error);
+    }
+  }
+
+  touch(schedule);
+}
+
+// Keep only the last `keepRuns` result sets
+async function pruneRuns(schedule: DocumentFetcherSchedule): Promise<void> {
+  while (schedule.runs.length > schedule.keepRuns) {
+    const [oldest] = schedule.runs.splice(0, 1);
+    if (oldest.zipPath) {
+      await fs.remove(oldest.zipPath);
+    }
+  }
+  touch(schedule);
+}
+
+function touch(schedule: DocumentFetcherSchedule): void {
+  schedule.updatedAt = new Date().toISOString();
+  schedulePersist();
+}
@@ -0,0 +1,117 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createSourceRegistry, SourceRegistry } from './sourceResolvers.js';
+
+// Stand-in for the providers: records each request and answers with a file
+const received: Array<{ path: string; host: string | undefined }> = [];
+let server: http.Server;
+let registry: SourceRegistry;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    received.push({ path: req.url || '', host: req.headers['x-forwarded-host'] as string | undefined });
+    res.writeHead(200, { 'Content-Type': 'application/pdf' });
+    res.end('%PDF-1.4 test');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  registry = createSourceRegistry(undefined, { baseUrl: `http://127.0.0.1:${port}` });
+});
+
+after(() => {
+  server.close();
+});
+
+// Resolve a link and fetch it from the stand-in
+async function download(link: string): Promise<{ source: string; path: string; host: string | undefined }> {
+  const { request, error } = registry.resolve(link);
+  assert.ok(request, error);
+
+  const response = await fetch(request.url, { headers: request.headers });
+  assert.equal(response.status, 200);
+  assert.equal(await response.text(), '%PDF-1.4 test');
+
+  return { source: request.source, ...received[received.length - 1] };
+}
+
+test('Google Drive file links use the uc download endpoint', async () => {
+  for (const link of [
+    'https://drive.google.com/file/d/abc_123-X/view?usp=sharing',
+    'https://drive.google.com/open?id=abc_123-X',
+    'http://drive.google.com/uc?id=abc_123-X&export=download'
+  ]) {
+    assert.deepEqual(await download(link), {
+      source: 'google-drive',
+      path: '/uc?export=download&id=abc_123-X',
+      host: 'drive.google.com'
+    });
+  }
+});
+
+test('Google Drive folder and malformed links are refused', () => {
+  assert.equal(registry.resolve('https://drive.google.com/drive/folders/xyz').error, 'Google Drive folder links cannot be downloaded');
+  assert.equal(registry.resolve('https://drive.google.com/file/view').error, 'Invalid Google Drive link');
+});
+
+test('Google Docs editors are exported', async () => {
+  assert.deepEqual(await download('https://docs.google.com/document/d/doc1/edit'), {
+    source: 'google-docs',
+    path: '/document/d/doc1/export?format=pdf',
+    host: 'docs.google.com'
+  });
+  assert.equal((await download('https://docs.google.com/spreadsheets/d/sheet1/edit#gid=0')).path, '/spreadsheets/d/sheet1/export?format=xlsx');
+  assert.equal((await download('https://docs.google.com/drawings/d/draw1/edit')).path, '/drawings/d/draw1/export/png');
+  assert.equal(registry.resolve('https://docs.google.com/forms/d/form1/viewform').error, 'Unsupported Google Docs link');
+});
+
+test('Dropbox share links download with dl=1 and keep rlkey', async () => {
+  assert.deepEqual(await download('https://dropbox.com/scl/fi/abc/marks.pdf?rlkey=key1&dl=0'), {
+    source: 'dropbox',
+    path: '/scl/fi/abc/marks.pdf?rlkey=key1&dl=1',
+    host: 'www.dropbox.com'
+  });
+  assert.equal(registry.resolve('https://www.dropbox.com/sh/folder/abc').error, 'Dropbox folder links cannot be downloaded');
+});
+
+test('OneDrive links go through the shares API and SharePoint links get download=1', async () => {
+  const link = 'https://1drv.ms/b/s!AbCdEf';
+  const shareId = 'u!' + Buffer.from(link).toString('base64url');
+  assert.deepEqual(await download(link), {
+    source: 'onedrive',
+    path: `/v1.0/shares/${shareId}/root/content`,
+    host: 'api.onedrive.com'
+  });
+
+  assert.deepEqual(await download('https://school.sharepoint.com/:b:/g/personal/doc?e=x1'), {
+    source: 'onedrive',
+    path: '/:b:/g/personal/doc?e=x1&download=1',
+    host: 'school.sharepoint.com'
+  });
+});
+
+test('other https links are downloaded as they are', async () => {
+  assert.deepEqual(await download('https://files.example.org/scans/a.pdf?v=2'), {
+    source: 'http',
+    path: '/scans/a.pdf?v=2',
+    host: 'files.example.org'
+  });
+});
+
+test('plain http, other protocols and invalid links are refused', () => {
+  assert.equal(registry.resolve('http://files.example.org/a.pdf').error, 'Only https links can be downloaded');
+  assert.equal(registry.resolve('ftp://files.example.org/a.pdf').error, 'Only https links can be downloaded');
+  assert.equal(registry.resolve('not a link').error, 'Invalid link');
+});
+
+test('later registrations take over a host', () => {
+  const custom = createSourceRegistry();
+  custom.register({
+    source: 'http',
+    matches: url => url.hostname === 'drive.google.com',
+    resolve: url => ({ request: { source: 'http', url: url.toString() } })
+  });
+  assert.equal(custom.resolve('https://drive.google.com/file/d/abc/view').request?.source, 'http');
+});
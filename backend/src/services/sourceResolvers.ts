@@ -0,0 +1,216 @@
+import { DocumentSource } from '../types/index.js';
+
+// Where and how to download one spreadsheet link
+export interface DownloadRequest {
+  source: DocumentSource;
+  url: string;
+  headers?: { [name: string]: string };
+  // Provider file id, when the link has one
+  fileId?: string;
+  // Extension of the exported format, e.g. '.pdf' for a Google Doc
+  extension?: string;
+}
+
+export type ResolveResult =
+  | { request: DownloadRequest; error?: undefined }
+  | { request?: undefined; error: string };
+
+export interface SourceResolver {
+  source: DocumentSource;
+  // Whether this resolver is responsible for the link
+  matches: (url: URL) => boolean;
+  resolve: (url: URL) => ResolveResult;
+}
+
+export interface SourceRegistry {
+  resolve: (link: string) => ResolveResult;
+  // Later registrations are tried first, so they can take over a host
+  register: (resolver: SourceResolver) => void;
+}
+
+// Google Docs editors and the format each is exported as
+const GOOGLE_EXPORTS: { [kind: string]: { format: string; extension: string } } = {
+  document: { format: 'pdf', extension: '.pdf' },
+  spreadsheets: { format: 'xlsx', extension: '.xlsx' },
+  presentation: { format: 'pdf', extension: '.pdf' },
+  drawings: { format: 'png', extension: '.png' }
+};
+
+export const googleDriveResolver: SourceResolver = {
+  source: 'google-drive',
+  matches: (url) => url.hostname === 'drive.google.com' || (url.hostname === 'docs.google.com' && url.pathname === '/uc'),
+  resolve: (url) => {
+    if (url.pathname.startsWith('/drive/folders/') || url.searchParams.has('folderid')) {
+      return { error: 'Google Drive folder links cannot be downloaded' };
+    }
+
+    const fileId = extractDriveFileId(url);
+    if (!fileId) {
+      return { error: 'Invalid Google Drive link' };
+    }
+
+    return {
+      request: {
+        source: 'google-drive',
+        url: `https://drive.google.com/uc?export=download&id=${fileId}`,
+        fileId
+      }
+    };
+  }
+};
+
+export const googleDocsResolver: SourceResolver = {
+  source: 'google-docs',
+  matches: (url) => url.hostname === 'docs.google.com',
+  resolve: (url) => {
+    const match = url.pathname.match(/^\/(document|spreadsheets|presentation|drawings)\/d\/([a-zA-Z0-9_-]+)/);
+    if (!match) {
+      return { error: 'Unsupported Google Docs link' };
+    }
+
+    const [, kind, fileId] = match;
+    const { format, extension } = GOOGLE_EXPORTS[kind];
+    const exportUrl = kind === 'drawings'
+      ? `https://docs.google.com/drawings/d/${fileId}/export/${format}`
+      : `https://docs.google.com/${kind}/d/${fileId}/export?format=${format}`;
+
+    return { request: { source: 'google-docs', url: exportUrl, fileId, extension } };
+  }
+};
+
+export const dropboxResolver: SourceResolver = {
+  source: 'dropbox',
+  matches: (url) => /(^|\.)dropbox\.com$/.test(url.hostname) || url.hostname === 'dl.dropboxusercontent.com',
+  resolve: (url) => {
+    if (url.hostname === 'dl.dropboxusercontent.com') {
+      return { request: { source: 'dropbox', url: url.toString() } };
+    }
+
+    if (url.pathname.startsWith('/sh/') || url.pathname.startsWith('/scl/fo/')) {
+      return { error: 'Dropbox folder links cannot be downloaded' };
+    }
+
+    if (!/^\/(s|scl\/fi)\//.test(url.pathname)) {
+      return { error: 'Unsupported Dropbox link' };
+    }
+
+    // dl=1 returns the file instead of the preview page; rlkey must be kept
+    const direct = new URL(url.toString());
+    direct.hostname = 'www.dropbox.com';
+    direct.searchParams.delete('raw');
+    direct.searchParams.set('dl', '1');
+    return { request: { source: 'dropbox', url: direct.toString() } };
+  }
+};
+
+export const oneDriveResolver: SourceResolver = {
+  source: 'onedrive',
+  matches: (url) =>
+    url.hostname === '1drv.ms' ||
+    url.hostname === 'onedrive.live.com' ||
+    url.hostname.endsWith('.sharepoint.com'),
+  resolve: (url) => {
+    // SharePoint / OneDrive for Business sharing links download with download=1
+    if (url.hostname.endsWith('.sharepoint.com')) {
+      const direct = new URL(url.toString());
+      direct.searchParams.set('download', '1');
+      return { request: { source: 'onedrive', url: direct.toString() } };
+    }
+
+    // Personal OneDrive links go through the shares API
+    const shareId = 'u!' + Buffer.from(url.toString()).toString('base64url');
+    return {
+      request: {
+        source: 'onedrive',
+        url: `https://api.onedrive.com/v1.0/shares/${shareId}/root/content`
+      }
+    };
+  }
+};
+
+// Any other https link is downloaded as it is. Plain http is refused: links
+// are fetched by the server, and the fetcher only talks to public https hosts.
+export const httpResolver: SourceResolver = {
+  source: 'http',
+  matches: (url) => url.protocol === 'https:',
+  resolve: (url) => ({ request: { source: 'http', url: url.toString() } })
+};
+
+export const DEFAULT_SOURCE_RESOLVERS: SourceResolver[] = [
+  googleDriveResolver,
+  googleDocsResolver,
+  dropboxResolver,
+  oneDriveResolver,
+  httpResolver
+];
+
+// `baseUrl` sends every download to that origin instead of the provider's
+// (keeping path and query), so the resolvers can be tested against a local server.
+export function createSourceRegistry(
+  resolvers: SourceResolver[] = DEFAULT_SOURCE_RESOLVERS,
+  options: { baseUrl?: string } = {}
+): SourceRegistry {
+  const registered = [...resolvers];
+
+  return {
+    resolve: (link: string) => {
+      let url: URL;
+      try {
+        url = new URL(link.trim());
+      } catch {
+        return { error: 'Invalid link' };
+      }
+
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { error: 'Only https links can be downloaded' };
+      }
+
+      const resolver = registered.find(candidate => candidate.matches(url));
+      if (!resolver) {
+        return { error: url.protocol === 'http:' ? 'Only https links can be downloaded' : 'Unsupported link' };
+      }
+
+      // Known providers serve everything over https
+      if (url.protocol === 'http:') {
+        url.protocol = 'https:';
+      }
+
+      const result = resolver.resolve(url);
+      if (result.request && options.baseUrl) {
+        return { request: rebaseRequest(result.request, options.baseUrl) };
+      }
+      return result;
+    },
+
+    register: (resolver: SourceResolver) => {
+      registered.unshift(resolver);
+    }
+  };
+}
+
+// Registry used by the document fetcher
+export const sourceRegistry = createSourceRegistry();
+
+export function resolveSource(link: string): ResolveResult {
+  return sourceRegistry.resolve(link);
+}
+
+function extractDriveFileId(url: URL): string | null {
+  const match = url.pathname.match(/\/(?:file\/)?d\/([a-zA-Z0-9_-]+)/);
+  if (match) return match[1];
+
+  const id = url.searchParams.get('id');
+  return id && /^[a-zA-Z0-9_-]+$/.test(id) ? id : null;
+}
+
+function rebaseRequest(request: DownloadRequest, baseUrl: string): DownloadRequest {
+  const original = new URL(request.url);
+  const target = new URL(original.pathname + original.search, baseUrl);
+
+  return {
+    ...request,
+    url: target.toString(),
+    // Lets the server tell providers apart
+    headers: { ...request.headers, 'X-Forwarded-Host': original.host }
+  };
+}
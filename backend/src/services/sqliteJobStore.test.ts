@@ -0,0 +1,101 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { createSqliteJobStore } from './sqliteJobStore.js';
+import { JobStatus } from '../types/index.js';
+
+let dir: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-store-'));
+});
+
+after(async () => {
+  await fs.remove(dir);
+});
+
+function newJob(jobId: string, input?: JobStatus['input']): JobStatus {
+  const timestamp = new Date().toISOString();
+  return {
+    jobId,
+    tool: 'document-fetcher',
+    accessToken: 'token',
+    status: 'pending',
+    progress: 0,
+    total: 2,
+    current: 0,
+    results: [],
+    startTime: timestamp,
+    updatedAt: timestamp,
+    ...(input && { input })
+  };
+}
+
+test('results and input are stored apart from the job row', () => {
+  const store = createSqliteJobStore(path.join(dir, 'split.db'));
+  store.create(newJob('job-1', { data: [{ regNo: '1' }] }));
+
+  store.updateProgress('job-1', 1);
+  store.appendResult('job-1', { id: 'a', status: 'success', message: 'ok' });
+  store.appendResult('job-1', { id: 'b', status: 'failed', message: 'gone' });
+  store.removeResults('job-1', ['a']);
+
+  const job = store.get('job-1');
+  assert.equal(job.progress, 50);
+  assert.deepEqual(job.input, { data: [{ regNo: '1' }] });
+  assert.deepEqual(job.results, [{ id: 'b', status: 'failed', message: 'gone' }]);
+
+  const db = new Database(path.join(dir, 'split.db'), { readonly: true });
+  const row = db.prepare('SELECT data, input FROM jobs WHERE job_id = ?').get('job-1') as { data: string; input: string };
+  db.close();
+  assert.equal('input' in JSON.parse(row.data), false);
+  assert.equal('results' in JSON.parse(row.data), false);
+  assert.deepEqual(JSON.parse(row.input), { data: [{ regNo: '1' }] });
+
+  store.close();
+});
+
+test('update removes undefined keys and can replace the input', () => {
+  const store = createSqliteJobStore(path.join(dir, 'update.db'));
+  store.create(newJob('job-2', { data: [] }));
+
+  store.update('job-2', { status: 'queued', queuePosition: 3 });
+  store.update('job-2', { status: 'processing', queuePosition: undefined, input: { data: ['x'] } });
+
+  const job = store.get('job-2');
+  assert.equal(job.status, 'processing');
+  assert.equal('queuePosition' in job, false);
+  assert.deepEqual(job.input, { data: ['x'] });
+
+  store.close();
+});
+
+test('list leaves out input and results', () => {
+  const store = createSqliteJobStore(path.join(dir, 'list.db'));
+  store.create(newJob('job-3', { data: [1, 2, 3] }));
+  store.create({ ...newJob('job-4'), tool: 'qr-code' });
+  store.appendResult('job-3', { id: 'a', status: 'success', message: 'ok' });
+  store.finish('job-4', 'completed');
+
+  const jobs = store.list({ tool: 'document-fetcher' });
+  assert.deepEqual(jobs.map(job => job.jobId), ['job-3']);
+  assert.deepEqual(jobs[0].results, []);
+  assert.equal(jobs[0].input, undefined);
+  assert.deepEqual(store.list({ statuses: ['completed'] }).map(job => job.jobId), ['job-4']);
+
+  store.close();
+});
+
+test('writes to an unknown job are ignored', () => {
+  const store = createSqliteJobStore(path.join(dir, 'missing.db'));
+
+  store.appendResult('nope', { id: 'a', status: 'success', message: 'ok' });
+  store.updateProgress('nope', 1);
+  store.removeResults('nope', ['a']);
+  assert.equal(store.get('nope'), undefined);
+
+  store.close();
+});
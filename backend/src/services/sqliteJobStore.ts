@@ -0,0 +1,155 @@
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import path from 'path';
+import { JobStore, ACTIVE_JOB_STATUSES, progressFor } from './jobStore.js';
+import { JobStatus, ProcessingResult } from '../types/index.js';
+
+// Keeps jobs in a SQLite file, so job history survives restarts and several
+// server instances on one host can share it. Results live in their own table
+// and the job input in its own column, so appending a result or updating
+// progress does not rewrite either.
+export function createSqliteJobStore(filePath: string): JobStore {
+  fs.ensureDirSync(path.dirname(filePath));
+
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  db.pragma('foreign_keys = ON');
+  db.pragma('busy_timeout = 5000');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      job_id TEXT PRIMARY KEY,
+      tool TEXT NOT NULL,
+      status TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL,
+      input TEXT
+    );
+    CREATE INDEX IF NOT EXISTS jobs_tool_idx ON jobs (tool);
+    CREATE INDEX IF NOT EXISTS jobs_updated_at_idx ON jobs (updated_at);
+
+    CREATE TABLE IF NOT EXISTS job_results (
+      job_id TEXT NOT NULL REFERENCES jobs (job_id) ON DELETE CASCADE,
+      result_id TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS job_results_job_idx ON job_results (job_id);
+  `);
+
+  const statements = {
+    insertJob: db.prepare('INSERT INTO jobs (job_id, tool, status, updated_at, data, input) VALUES (?, ?, ?, ?, ?, ?)'),
+    selectJob: db.prepare('SELECT data FROM jobs WHERE job_id = ?'),
+    selectInput: db.prepare('SELECT input FROM jobs WHERE job_id = ?'),
+    updateJob: db.prepare('UPDATE jobs SET status = ?, updated_at = ?, data = ? WHERE job_id = ?'),
+    updateInput: db.prepare('UPDATE jobs SET input = ? WHERE job_id = ?'),
+    selectResults: db.prepare('SELECT data FROM job_results WHERE job_id = ? ORDER BY rowid'),
+    insertResult: db.prepare('INSERT INTO job_results (job_id, result_id, data) VALUES (?, ?, ?)'),
+    // Like the other writes, a result for an unknown job is ignored
+    appendResult: db.prepare('INSERT INTO job_results (job_id, result_id, data) SELECT ?, ?, ? WHERE EXISTS (SELECT 1 FROM jobs WHERE job_id = ?)'),
+    deleteResult: db.prepare('DELETE FROM job_results WHERE job_id = ? AND result_id = ?'),
+    selectAll: db.prepare('SELECT status, data FROM jobs ORDER BY updated_at'),
+    selectByTool: db.prepare('SELECT status, data FROM jobs WHERE tool = ? ORDER BY updated_at'),
+    expireJobs: db.prepare(`DELETE FROM jobs WHERE updated_at < ? AND status NOT IN (${ACTIVE_JOB_STATUSES.map(() => '?').join(', ')})`)
+  };
+
+  // The job row without its input and results
+  const readJob = (jobId: string): JobStatus | undefined => {
+    const row = statements.selectJob.get(jobId) as { data: string } | undefined;
+    return row ? { ...JSON.parse(row.data), results: [] } : undefined;
+  };
+
+  const writeJob = (job: JobStatus) => {
+    job.updatedAt = new Date().toISOString();
+    const { results, input, ...data } = job;
+    statements.updateJob.run(job.status, job.updatedAt, JSON.stringify(data), job.jobId);
+  };
+
+  // Read-modify-write of one job row inside a transaction
+  const mutate = db.transaction((jobId: string, change: (job: JobStatus) => void) => {
+    const job = readJob(jobId);
+    if (!job) return;
+    change(job);
+    writeJob(job);
+  });
+
+  return {
+    create: db.transaction((job: JobStatus) => {
+      const { results, input, ...data } = job;
+      statements.insertJob.run(job.jobId, job.tool, job.status, job.updatedAt, JSON.stringify(data), input ? JSON.stringify(input) : null);
+      for (const result of results) {
+        statements.insertResult.run(job.jobId, result.id, JSON.stringify(result));
+      }
+    }),
+
+    get(jobId) {
+      const job = readJob(jobId);
+      if (!job) return undefined;
+
+      const { input } = statements.selectInput.get(jobId) as { input: string | null };
+      if (input) job.input = JSON.parse(input);
+
+      const rows = statements.selectResults.all(jobId) as { data: string }[];
+      job.results = rows.map(row => JSON.parse(row.data) as ProcessingResult);
+      return job;
+    },
+
+    update: db.transaction((jobId: string, changes: Partial<JobStatus>) => {
+      const { input, ...rest } = changes;
+      mutate(jobId, (job) => {
+        // Keys set to undefined are dropped by JSON.stringify
+        Object.assign(job, rest);
+      });
+      if ('input' in changes) {
+        statements.updateInput.run(input ? JSON.stringify(input) : null, jobId);
+      }
+    }),
+
+    updateProgress(jobId, current, total) {
+      mutate(jobId, (job) => {
+        job.current = current;
+        if (total !== undefined) job.total = total;
+        job.progress = progressFor(current, job.total);
+      });
+    },
+
+    appendResult(jobId, result) {
+      statements.appendResult.run(jobId, result.id, JSON.stringify(result), jobId);
+    },
+
+    removeResults: db.transaction((jobId: string, resultIds: string[]) => {
+      for (const resultId of resultIds) {
+        statements.deleteResult.run(jobId, resultId);
+      }
+    }),
+
+    finish(jobId, status, details = {}) {
+      mutate(jobId, (job) => {
+        job.status = status;
+        job.endTime = new Date().toISOString();
+        delete job.queuePosition;
+        if (status === 'completed') job.progress = 100;
+        if (details.output) job.output = details.output;
+        if (details.error) job.error = details.error;
+      });
+    },
+
+    list(filter = {}) {
+      const rows = (filter.tool
+        ? statements.selectByTool.all(filter.tool)
+        : statements.selectAll.all()) as { status: JobStatus['status']; data: string }[];
+
+      return rows
+        .filter(row => !filter.statuses || filter.statuses.includes(row.status))
+        .map(row => ({ ...JSON.parse(row.data), results: [] }) as JobStatus);
+    },
+
+    expire(cutoff) {
+      return statements.expireJobs.run(cutoff.toISOString(), ...ACTIVE_JOB_STATUSES).changes;
+    },
+
+    close() {
+      if (db.open) db.close();
+    }
+  };
+}
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { signWebhookPayload, validateCallbackUrl } from './webhookService.js';
+
+test('callback URLs must be public https URLs', () => {
+  assert.equal(validateCallbackUrl(undefined), null);
+  assert.equal(validateCallbackUrl(''), null);
+  assert.equal(validateCallbackUrl('https://hooks.example.org/jobs'), null);
+
+  assert.equal(validateCallbackUrl(42), 'callbackUrl must be a string');
+  assert.equal(validateCallbackUrl('not a url'), 'callbackUrl is not a valid URL');
+  assert.equal(validateCallbackUrl('http://hooks.example.org/jobs'), 'callbackUrl must be an https URL');
+  for (const url of ['https://127.0.0.1/hook', 'https://169.254.169.254/latest', 'https://[::1]/hook', 'https://10.0.0.2/hook']) {
+    assert.equal(validateCallbackUrl(url), 'callbackUrl must not point to a private or local address', url);
+  }
+});
+
+test('payloads are signed over the timestamp and body', () => {
+  const body = JSON.stringify({ event: 'qr-code:complete' });
+  const expected = crypto.createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex');
+  assert.equal(signWebhookPayload('secret', '1700000000', body), expected);
+});
@@ -0,0 +1,145 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { getJob, addWebhookDelivery } from './jobRegistry.js';
+import { assertPublicUrl, publicRequestOptions } from '../utils/networkGuard.js';
+import { WebhookDelivery } from '../types/index.js';
+
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5');
+const WEBHOOK_TIMEOUT = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+const WEBHOOK_BASE_DELAY = 1000;
+const WEBHOOK_MAX_DELAY = 60000;
+
+// Returns an error message, or null when the callback URL can be used
+export function validateCallbackUrl(callbackUrl: unknown): string | null {
+  if (callbackUrl === undefined || callbackUrl === null || callbackUrl === '') {
+    return null;
+  }
+
+  if (typeof callbackUrl !== 'string') {
+    return 'callbackUrl must be a string';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(callbackUrl);
+  } catch {
+    return 'callbackUrl is not a valid URL';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'callbackUrl must be an https URL';
+  }
+
+  // Host names are checked again when each delivery resolves them
+  try {
+    assertPublicUrl(url);
+  } catch {
+    return 'callbackUrl must not point to a private or local address';
+  }
+
+  return null;
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>". Signed with WEBHOOK_SECRET, or with the
+// job's access token when no shared secret is configured.
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// POST a finished job's payload to its callbackUrl. Runs in the background and
+// retries with exponential backoff; every attempt is recorded on the job.
+export function deliverJobWebhook(jobId: string, event: string, data: any): void {
+  const job = getJob(jobId);
+  if (!job?.callbackUrl) return;
+
+  const deliveryId = crypto.randomUUID();
+  const body = JSON.stringify({
+    deliveryId,
+    event,
+    jobId,
+    tool: job.tool,
+    data,
+    timestamp: new Date().toISOString()
+  });
+  const secret = WEBHOOK_SECRET || job.accessToken;
+
+  sendWithRetries(jobId, job.callbackUrl, deliveryId, event, body, secret).catch(error => {
+    console.error(`Error delivering webhook for job ${jobId}:`, error);
+  });
+}
+
+async function sendWithRetries(
+  jobId: string,
+  url: string,
+  deliveryId: string,
+  event: string,
+  body: string,
+  secret: string
+): Promise<void> {
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    const startedAt = Date.now();
+    const timestamp = Math.floor(startedAt / 1000).toString();
+    const delivery: WebhookDelivery = {
+      deliveryId,
+      event,
+      url,
+      attempt,
+      status: 'failed',
+      durationMs: 0,
+      timestamp: new Date(startedAt).toISOString()
+    };
+
+    // Blocked hosts are not retried
+    let blocked = false;
+
+    try {
+      assertPublicUrl(url);
+      const response = await axios.post(url, body, {
+        ...publicRequestOptions(),
+        timeout: WEBHOOK_TIMEOUT,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'OKIEDOKIE-UTILITY-Webhook/1.0',
+          'X-Webhook-Id': deliveryId,
+          'X-Webhook-Event': event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${signWebhookPayload(secret, timestamp, body)}`
+        }
+      });
+
+      delivery.statusCode = response.status;
+      if (response.status >= 200 && response.status < 300) {
+        delivery.status = 'success';
+      } else {
+        delivery.error = `Callback responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : 'Webhook request failed';
+      blocked = error?.code === 'ERR_BLOCKED_ADDRESS';
+    }
+
+    delivery.durationMs = Date.now() - startedAt;
+
+    if (delivery.status === 'success') {
+      addWebhookDelivery(jobId, delivery);
+      console.log(`📬 Webhook ${event} delivered for job ${jobId} (attempt ${attempt})`);
+      return;
+    }
+
+    const willRetry = !blocked && attempt < WEBHOOK_MAX_ATTEMPTS;
+    if (willRetry) delivery.status = 'retrying';
+    addWebhookDelivery(jobId, delivery);
+
+    if (!willRetry) {
+      console.error(`❌ Webhook ${event} for job ${jobId} failed after ${attempt} attempts: ${delivery.error}`);
+      return;
+    }
+
+    // 1s, 2s, 4s, ... with jitter, capped
+    const delay = Math.min(WEBHOOK_BASE_DELAY * 2 ** (attempt - 1), WEBHOOK_MAX_DELAY);
+    await new Promise(resolve => setTimeout(resolve, delay + Math.random() * delay * 0.2));
+  }
+}
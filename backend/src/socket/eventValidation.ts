@@ -0,0 +1,36 @@
+import { JoinJobRequest, JobEventBase } from '../types/index.js';
+
+// Runtime checks for events sent by clients. The TypeScript contract in
+// types/index.ts only holds for clients that were compiled against it.
+
+const JOB_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const MAX_TOKEN_LENGTH = 256;
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isJobId(value: unknown): value is string {
+  return typeof value === 'string' && JOB_ID_PATTERN.test(value);
+}
+
+export function isJoinJobRequest(value: unknown): value is JoinJobRequest {
+  if (!isObject(value)) return false;
+
+  const { jobId, token, lastSeq } = value;
+  return isJobId(jobId)
+    && typeof token === 'string'
+    && token.length > 0
+    && token.length <= MAX_TOKEN_LENGTH
+    && (lastSeq === undefined || (Number.isInteger(lastSeq) && (lastSeq as number) >= 0));
+}
+
+// Start announcements are relayed to the job room as they are, so only
+// well-formed payloads without a server-assigned `seq` get through
+export function isClientStartEvent(value: unknown): value is JobEventBase {
+  if (!isObject(value)) return false;
+
+  return isJobId(value.jobId)
+    && (value.timestamp === undefined || typeof value.timestamp === 'string')
+    && value.seq === undefined;
+}
@@ -0,0 +1,120 @@
+import { test, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+
+// Short enough to wait for; read when the module loads
+process.env.JOB_EVENT_LOG_TTL_MS = '30';
+
+let handlers: typeof import('./socketHandlers.js');
+let registry: typeof import('../services/jobRegistry.js');
+
+type SocketServer = Parameters<typeof handlers.setupSocketHandlers>[0];
+type Received = Array<{ event: string; data: any }>;
+
+let connect: (socket: unknown) => void;
+
+// Collects what would be sent to job rooms
+const sent: Array<{ room: string; event: string }> = [];
+const io = {
+  on: (_event: string, listener: (socket: unknown) => void) => { connect = listener; },
+  to: (room: string) => ({
+    emit: (event: string) => sent.push({ room, event }),
+    volatile: { emit: (event: string) => sent.push({ room, event }) }
+  }),
+  emit: () => true
+} as unknown as SocketServer;
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  // Keeps the periodic status broadcast from holding the process open
+  mock.timers.enable({ apis: ['setInterval'] });
+
+  handlers = await import('./socketHandlers.js');
+  registry = await import('../services/jobRegistry.js');
+  handlers.setupSocketHandlers(io);
+});
+
+// Joins the job's room from a new client and returns what that client was sent
+function join(jobId: string, lastSeq: number): Received {
+  const received: Received = [];
+  const listeners = new Map<string, (data: unknown) => void>();
+  const rooms = new Set<string>();
+
+  connect({
+    id: `client-${jobId}-${lastSeq}`,
+    rooms,
+    on: (event: string, listener: (data: unknown) => void) => listeners.set(event, listener),
+    join: (room: string) => rooms.add(room),
+    leave: (room: string) => rooms.delete(room),
+    emit: (event: string, data: any) => received.push({ event, data })
+  });
+  listeners.get('join:job')({ jobId, token: registry.getJob(jobId).accessToken, lastSeq });
+  return received;
+}
+
+function snapshotOf(received: Received) {
+  return received.find(message => message.event === 'job:snapshot').data;
+}
+
+function replayedSeqs(received: Received): number[] {
+  return received.filter(message => message.event.startsWith('qr-code:')).map(message => message.data.seq);
+}
+
+function progress(jobId: string, current: number) {
+  handlers.emitProgress(io, jobId, 'qr-code:progress', {
+    jobId,
+    current,
+    total: 3,
+    progress: current * 33,
+    timestamp: new Date().toISOString()
+  });
+}
+
+function complete(jobId: string) {
+  handlers.emitCompletion(io, jobId, 'qr-code:complete', {
+    jobId,
+    totalProcessed: 1,
+    results: [],
+    elapsedSeconds: 1,
+    bytesProcessed: 0,
+    itemsPerSecond: 1,
+    bytesPerSecond: 0,
+    etaSeconds: 0,
+    timestamp: new Date().toISOString()
+  });
+}
+
+test('late joiners get the events after their last seq', () => {
+  registry.createJob('job-replay', 'qr-code', 3);
+  progress('job-replay', 1);
+  progress('job-replay', 2);
+  progress('job-replay', 3);
+
+  const received = join('job-replay', 1);
+  assert.equal(snapshotOf(received).seq, 3);
+  assert.equal(snapshotOf(received).truncated, false);
+  assert.deepEqual(replayedSeqs(received), [2, 3]);
+  assert.ok(sent.every(message => message.room === 'job-replay'));
+
+  // A counter ahead of the log cannot be replayed
+  assert.equal(snapshotOf(join('job-replay', 9)).truncated, true);
+});
+
+test('the event log of a finished job is dropped after the TTL and numbering carries on', async () => {
+  registry.createJob('job-expire', 'qr-code', 3);
+  progress('job-expire', 1);
+  registry.completeJob('job-expire');
+  complete('job-expire');
+
+  await sleep(80);
+
+  assert.equal(registry.getJob('job-expire').lastEventSeq, 2);
+  const received = join('job-expire', 2);
+  assert.equal(snapshotOf(received).seq, 2);
+  assert.equal(snapshotOf(received).truncated, false);
+  assert.deepEqual(replayedSeqs(received), []);
+
+  // A retry under the same jobId numbers upwards from there
+  progress('job-expire', 1);
+  assert.deepEqual(replayedSeqs(join('job-expire', 2)), [3]);
+});
@@ -1,30 +1,107 @@
 import { Server, Socket } from 'socket.io';
+import { EventEmitter } from 'events';
+import { abortJob } from '../services/jobQueue.js';
+import { getJob, verifyJobToken, toPublicJob, setJobEventSeq } from '../services/jobRegistry.js';
+import { ACTIVE_JOB_STATUSES } from '../services/jobStore.js';
+import { deliverJobWebhook } from '../services/webhookService.js';
+import { isJobId, isJoinJobRequest, isClientStartEvent } from './eventValidation.js';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  SocketData,
+  ServerEventName,
+  ServerEventPayload,
+  JobSnapshotEvent,
+  JobErrorEvent,
+  JobTool
+} from '../types/index.js';
 
-interface SocketData {
-  jobId?: string;
-  userId?: string;
+export type SocketServer = Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+type AppSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+// Events that belong to a job and go to its room
+type JobEventName = Extract<ServerEventName, `${JobTool}:${string}`>;
+type FinalJobEventName = `${JobTool}:complete` | `${JobTool}:cancelled`;
+
+export interface JobEvent {
+  // 0 for transient events, which are not in the log
+  seq: number;
+  event: JobEventName;
+  data: ServerEventPayload<JobEventName>;
+  final: boolean;
+}
+
+interface JobEventLog {
+  lastSeq: number;
+  events: JobEvent[];
+  expiryTimer?: NodeJS.Timeout;
 }
 
-export function setupSocketHandlers(io: Server): void {
-  io.on('connection', (socket: Socket) => {
+// Recent events per job, so late joiners and reconnecting clients can catch up
+const EVENT_LOG_SIZE = parseInt(process.env.JOB_EVENT_LOG_SIZE || '500');
+const EVENT_LOG_TTL = parseInt(process.env.JOB_EVENT_LOG_TTL_MS || '600000'); // 10 minutes after the job ends
+const eventLogs = new Map<string, JobEventLog>();
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+export function setupSocketHandlers(io: SocketServer): void {
+  io.on('connection', (socket: AppSocket) => {
     console.log(`🔌 Client connected: ${socket.id}`);
     
-    // Handle joining job rooms
-    socket.on('join:job', (jobId: string) => {
+    // Handle joining job rooms. Only holders of the job's access token may join.
+    socket.on('join:job', (data) => {
+      if (!isJoinJobRequest(data)) {
+        const jobId: unknown = (data as { jobId?: unknown })?.jobId;
+        socket.emit('join:job:error', { jobId: isJobId(jobId) ? jobId : '', error: 'Invalid join:job payload' });
+        return;
+      }
+
+      const { jobId } = data;
+
+      if (!getJob(jobId)) {
+        socket.emit('join:job:error', { jobId, error: 'Job not found' });
+        return;
+      }
+
+      if (!verifyJobToken(jobId, data.token)) {
+        console.log(`🚫 Client ${socket.id} was refused job room: ${jobId}`);
+        socket.emit('join:job:error', { jobId, error: 'Invalid job access token' });
+        return;
+      }
+
       socket.join(jobId);
       console.log(`📝 Client ${socket.id} joined job room: ${jobId}`);
       
       socket.emit('joined:job', { jobId, message: 'Successfully joined job room' });
+      replayJobEvents(socket, jobId, data.lastSeq || 0);
     });
     
     // Handle leaving job rooms
-    socket.on('leave:job', (jobId: string) => {
+    socket.on('leave:job', (jobId) => {
+      if (!isJobId(jobId)) return;
       socket.leave(jobId);
       console.log(`📝 Client ${socket.id} left job room: ${jobId}`);
     });
     
+    // Handle job cancellation, allowed only from sockets in the job room
+    socket.on('job:cancel', (jobId, ack) => {
+      if (!isJobId(jobId) || !socket.rooms.has(jobId)) {
+        if (typeof ack === 'function') {
+          ack({ success: false, error: 'Join the job before cancelling it' });
+        }
+        return;
+      }
+
+      const cancelled = abortJob(jobId);
+      console.log(`⏹️ Client ${socket.id} requested cancel for job ${jobId}: ${cancelled ? 'accepted' : 'not active'}`);
+
+      if (typeof ack === 'function') {
+        ack(cancelled ? { success: true } : { success: false, error: 'Job is not active' });
+      }
+    });
+    
     // Handle test events
-    socket.on('test', (data: any) => {
+    socket.on('test', (data) => {
       console.log(`🧪 Test event received from ${socket.id}:`, data);
       socket.emit('test:response', { 
         message: 'Test successful', 
@@ -34,40 +111,40 @@ export function setupSocketHandlers(io: Server): void {
     });
     
     // Handle utility-specific events
-    socket.on('document-fetcher:start', (data: any) => {
+    socket.on('document-fetcher:start', (data) => {
+      if (!isClientStartEvent(data) || !socket.rooms.has(data.jobId)) return;
       console.log(`📄 Document fetcher started:`, data);
       socket.to(data.jobId).emit('document-fetcher:start', data);
     });
     
-    socket.on('file-converter:start', (data: any) => {
+    socket.on('file-converter:start', (data) => {
+      if (!isClientStartEvent(data) || !socket.rooms.has(data.jobId)) return;
       console.log(`🔄 File converter started:`, data);
       socket.to(data.jobId).emit('file-converter:start', data);
     });
     
-    socket.on('qr-code:start', (data: any) => {
+    socket.on('qr-code:start', (data) => {
+      if (!isClientStartEvent(data) || !socket.rooms.has(data.jobId)) return;
       console.log(`🔲 QR code generator started:`, data);
       socket.to(data.jobId).emit('qr-code:start', data);
     });
     
-    socket.on('password-generator:start', (data: any) => {
+    socket.on('password-generator:start', (data) => {
+      if (!isClientStartEvent(data) || !socket.rooms.has(data.jobId)) return;
       console.log(`🔐 Password generator started:`, data);
       socket.to(data.jobId).emit('password-generator:start', data);
     });
     
-    socket.on('image-resizer:start', (data: any) => {
+    socket.on('image-resizer:start', (data) => {
+      if (!isClientStartEvent(data) || !socket.rooms.has(data.jobId)) return;
       console.log(`🖼️ Image resizer started:`, data);
       socket.to(data.jobId).emit('image-resizer:start', data);
     });
     
     // Handle disconnection
-    socket.on('disconnect', (reason: string) => {
+    socket.on('disconnect', (reason) => {
       console.log(`🔌 Client disconnected: ${socket.id}, reason: ${reason}`);
     });
-    
-    // Handle connection errors
-    socket.on('connect_error', (error: Error) => {
-      console.error(`❌ Connection error for ${socket.id}:`, error.message);
-    });
   });
   
   // Broadcast server status periodically
@@ -81,41 +158,156 @@ export function setupSocketHandlers(io: Server): void {
   }, 30000); // Every 30 seconds
 }
 
-// Utility function to emit progress updates
-export function emitProgress(
-  io: Server, 
+// Number an event and keep it in the job's bounded event log
+function recordJobEvent<E extends JobEventName>(
+  jobId: string,
+  event: E,
+  data: ServerEventPayload<E>,
+  final = false
+): ServerEventPayload<E> {
+  let log = eventLogs.get(jobId);
+  if (!log) {
+    // Carry on from the last log of this jobId, if it was dropped already
+    log = { lastSeq: getJob(jobId)?.lastEventSeq ?? 0, events: [] };
+    eventLogs.set(jobId, log);
+  }
+
+  const seq = ++log.lastSeq;
+  const payload = { ...data, seq };
+  const entry: JobEvent = { seq, event, data: payload, final };
+
+  log.events.push(entry);
+  if (log.events.length > EVENT_LOG_SIZE) {
+    log.events.shift();
+  }
+  jobEvents.emit(jobId, entry);
+
+  // Keep the events for a while after the job ends, then drop the log. Its
+  // sequence counter is saved on the job, so a retry under the same jobId
+  // keeps numbering upwards.
+  if (log.expiryTimer) {
+    clearTimeout(log.expiryTimer);
+    log.expiryTimer = undefined;
+  }
+
+  if (final) {
+    const expiringLog = log;
+    expiringLog.expiryTimer = setTimeout(() => {
+      const job = getJob(jobId);
+      if (job && ACTIVE_JOB_STATUSES.includes(job.status)) {
+        expiringLog.events = [];
+        return;
+      }
+
+      if (job) setJobEventSeq(jobId, expiringLog.lastSeq);
+      eventLogs.delete(jobId);
+    }, EVENT_LOG_TTL);
+    expiringLog.expiryTimer.unref();
+  }
+
+  return payload;
+}
+
+// Snapshot plus every buffered event after `lastSeq`, for a client catching up.
+// If older events were already dropped from the log, the snapshot replaces the replay.
+export function getJobEventReplay(jobId: string, lastSeq: number): { snapshot: JobSnapshotEvent; events: JobEvent[] } {
+  const job = getJob(jobId);
+  const log = eventLogs.get(jobId);
+  const missed = log ? log.events.filter(entry => entry.seq > lastSeq) : [];
+  const latestSeq = log?.lastSeq ?? job?.lastEventSeq ?? 0;
+  const oldestSeq = log?.events[0]?.seq ?? latestSeq + 1;
+  // Either events were dropped, or the client's counter is from an older event log
+  const truncated = lastSeq + 1 < oldestSeq || lastSeq > latestSeq;
+
+  const snapshot: JobSnapshotEvent = {
+    jobId,
+    seq: latestSeq,
+    truncated,
+    replayed: truncated ? 0 : missed.length,
+    job: job ? toPublicJob(job) : null,
+    timestamp: new Date().toISOString()
+  };
+
+  return { snapshot, events: truncated ? [] : missed };
+}
+
+// Listen to new events of one job (used by the SSE stream). Returns an unsubscribe function.
+export function subscribeToJobEvents(jobId: string, listener: (entry: JobEvent) => void): () => void {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+}
+
+function replayJobEvents(socket: AppSocket, jobId: string, lastSeq: number): void {
+  const { snapshot, events } = getJobEventReplay(jobId, lastSeq);
+
+  socket.emit('job:snapshot', snapshot);
+
+  for (const entry of events) {
+    emitJobEvent(socket, entry.event, entry.data);
+  }
+}
+
+// A client socket, or the server narrowed to a room
+type JobEventTarget = AppSocket | ReturnType<SocketServer['to']>;
+
+// Socket.IO cannot match a payload to a generic event name, so the
+// argument list is spelled out through the event map
+function emitJobEvent<E extends JobEventName>(target: JobEventTarget, event: E, payload: ServerEventPayload<E>): void {
+  const args = [payload] as Parameters<ServerToClientEvents[E]>;
+  target.emit(event, ...args);
+}
+
+// Utility function to emit progress updates (job room members only)
+export function emitProgress<E extends JobEventName>(
+  io: SocketServer, 
   jobId: string, 
-  event: string, 
-  data: any
+  event: E, 
+  data: ServerEventPayload<E>
+): void {
+  emitJobEvent(io.to(jobId), event, recordJobEvent(jobId, event, data));
+}
+
+// For frequent, quickly outdated updates such as byte progress. They go to
+// current listeners only: not logged, so they can't push the events that
+// matter out of the replay log, and dropped for clients that fall behind.
+export function emitTransient<E extends JobEventName>(
+  io: SocketServer,
+  jobId: string,
+  event: E,
+  data: ServerEventPayload<E>
 ): void {
-  io.to(jobId).emit(event, data);
-  io.emit(event, data); // Also emit to all clients as fallback
+  emitJobEvent(io.to(jobId).volatile, event, data);
+  jobEvents.emit(jobId, { seq: 0, event, data, final: false } as JobEvent);
 }
 
 // Utility function to emit completion
-export function emitCompletion(
-  io: Server, 
+export function emitCompletion<E extends FinalJobEventName>(
+  io: SocketServer, 
   jobId: string, 
-  event: string, 
-  data: any
+  event: E, 
+  data: ServerEventPayload<E>
 ): void {
-  io.to(jobId).emit(event, data);
-  io.emit(event, data); // Also emit to all clients as fallback
+  const payload = recordJobEvent(jobId, event, data, true);
+  emitJobEvent(io.to(jobId), event, payload);
+  deliverJobWebhook(jobId, event, payload);
 }
 
 // Utility function to emit errors
 export function emitError(
-  io: Server, 
+  io: SocketServer, 
   jobId: string, 
-  event: string, 
-  error: any
+  event: `${JobTool}:error`, 
+  error: unknown
 ): void {
-  const errorData = {
+  const errorData: JobErrorEvent = {
     jobId,
-    error: error.message || error,
+    error: error instanceof Error && error.message ? error.message : String(error),
     timestamp: new Date().toISOString()
   };
   
-  io.to(jobId).emit(event, errorData);
-  io.emit(event, errorData); // Also emit to all clients as fallback
+  const payload = recordJobEvent(jobId, event, errorData, true);
+  emitJobEvent(io.to(jobId), event, payload);
+  deliverJobWebhook(jobId, event, payload);
 }
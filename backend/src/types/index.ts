@@ -10,7 +10,8 @@ export interface ApiResponse<T = any> {
 
 export interface ProcessingResult {
   id: string;
-  status: 'pending' | 'processing' | 'success' | 'failed' | 'skipped';
+  // 'warning': the document fetcher downloaded the file, but it broke a column's validation rule
+  status: 'pending' | 'processing' | 'success' | 'warning' | 'failed' | 'skipped';
   message: string;
   progress?: number;
   filePath?: string;
@@ -18,16 +19,56 @@ export interface ProcessingResult {
   timestamp?: string;
 }
 
+export type JobTool =
+  | 'document-fetcher'
+  | 'file-converter'
+  | 'image-resizer'
+  | 'qr-code'
+  | 'password-generator';
+
 export interface JobStatus {
   jobId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  tool: JobTool;
+  accessToken: string;
+  status: 'pending' | 'queued' | 'processing' | 'interrupted' | 'completed' | 'failed' | 'cancelled';
+  queuePosition?: number;
   progress: number;
   total: number;
   current: number;
   results: ProcessingResult[];
   startTime: string;
+  updatedAt: string;
   endTime?: string;
   error?: string;
+  input?: { [key: string]: any };
+  output?: { [key: string]: any };
+  callbackUrl?: string;
+  webhookDeliveries?: WebhookDelivery[];
+  // Server instance that last ran the job
+  instanceId?: string;
+  // Set while the job is 'interrupted' by a shutdown and waiting to be resumed
+  checkpoint?: JobCheckpoint;
+  // `seq` of the job's last event, saved when its in-memory event log is dropped
+  lastEventSeq?: number;
+}
+
+export interface JobCheckpoint {
+  // Result ids that still have to be produced. Not set when the job never started.
+  remainingIds?: string[];
+  interruptedAt: string;
+}
+
+// One attempt to POST a job's completion payload to its callbackUrl
+export interface WebhookDelivery {
+  deliveryId: string;
+  event: string;
+  url: string;
+  attempt: number;
+  status: 'success' | 'failed' | 'retrying';
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  timestamp: string;
 }
 
 // Document Fetcher Types
@@ -42,19 +83,228 @@ export interface StudentRecord {
   'Migration Certificate'?: string;
 }
 
+export interface SpreadsheetSheet {
+  name: string;
+  rowCount: number;
+  hidden: boolean;
+}
+
+// Header text that appears in more than one column. Later columns are renamed
+// ("Photo (2)") so their values are not lost.
+export interface SpreadsheetDuplicateHeader {
+  header: string;
+  columns: string[];
+  renamedTo: string[];
+}
+
+// Response of /api/document-fetcher/parse-excel
+export interface ParsedSpreadsheet {
+  records: StudentRecord[];
+  columns: string[];
+  totalRows: number;
+  validRows: number;
+  sheets: SpreadsheetSheet[];
+  sheet: string;
+  headerRow: number;
+  duplicateHeaders: SpreadsheetDuplicateHeader[];
+  columnAnalysis: SpreadsheetColumnAnalysis[];
+  // Link column -> folder name, ready to use as DocumentFetcherConfig.columnMapping
+  suggestedMapping: { [column: string]: string };
+  suggestedIdColumn?: string;
+}
+
+// drive-link: Google Drive/Docs links. file-link: Dropbox, OneDrive or direct
+// file URLs. url: other web pages.
+export type SpreadsheetColumnKind = 'drive-link' | 'file-link' | 'url' | 'identifier' | 'text' | 'empty';
+
+// What a column holds, judged from a sample of its rows
+export interface SpreadsheetColumnAnalysis {
+  column: string;
+  kind: SpreadsheetColumnKind;
+  sampled: number;
+  filled: number;
+  // Links the fetcher can download a file from
+  validLinks: number;
+  // Links the fetcher rejects (folders, malformed)
+  invalidLinks: number;
+  // Web page links that do not point at a file
+  otherUrls: number;
+  // validLinks / filled
+  validLinkRatio: number;
+  // Valid links per provider
+  sources: Partial<Record<DocumentSource, number>>;
+  // Suggested folder for link columns
+  folderName?: string;
+}
+
 export interface DocumentFetcherConfig {
   maxConcurrent: number;
   timeout: number;
   autoOrganize: boolean;
   columnMapping?: { [key: string]: string };
+  // Column that identifies a row. Defaults to 'Reg No', 'regNo' or 'REG NO'.
+  idColumn?: string;
+  // e.g. '{Name}_{Roll Number}_{column}'. Placeholders are row fields or
+  // {id}, {column}, {folder}, {row}. Defaults to '{id}_{column}'.
+  fileNameTemplate?: string;
+  retryPolicy?: DocumentFetcherRetryPolicy;
+  // Requests per second to any one host; 0 turns the limit off. Default 10.
+  hostRateLimit?: number;
+  // Requests a host may get in a burst before hostRateLimit applies. Defaults to hostRateLimit.
+  hostBurst?: number;
+  // Lower concurrency while 429s and timeouts pile up, then raise it again. Default true.
+  adaptiveConcurrency?: boolean;
+  // Image processing for the files of a column, keyed like columnMapping
+  columnProcessing?: { [column: string]: DocumentProcessingRule };
+  // What the files of a column must look like, keyed like columnMapping
+  columnValidation?: { [column: string]: DocumentValidationRule };
+}
+
+// Files that break a rule are kept, with status 'warning'
+export interface DocumentValidationRule {
+  // Extensions, e.g. ['jpg', 'png']
+  allowedTypes?: string[];
+  minBytes?: number;
+  maxBytes?: number;
+  // Images only
+  minWidth?: number;
+  minHeight?: number;
+}
+
+export type DocumentValidationViolation = 'type' | 'min-bytes' | 'max-bytes' | 'min-dimensions';
+
+export interface DocumentValidationWarning {
+  violation: DocumentValidationViolation;
+  message: string;
+}
+
+// Rule violations of one column across a job
+export interface DocumentColumnViolations {
+  // Results with at least one violation
+  files: number;
+  byViolation: Partial<Record<DocumentValidationViolation, number>>;
+  resultIds: string[];
+}
+
+// Applied to each downloaded file of a column before it goes into the ZIP
+export interface DocumentProcessingRule {
+  // Output size; images smaller than this are enlarged
+  width?: number;
+  height?: number;
+  // Default 'cover'
+  fit?: ImageResizerConfig['fit'];
+  // Defaults to the downloaded format, or JPEG for GIF and TIFF
+  format?: ImageResizerConfig['format'];
+  // Default 90; lowered step by step when needed to meet maxBytes
+  quality?: number;
+  maxBytes?: number;
+  // Cut away plain borders, e.g. around a scanned signature
+  trim?: boolean;
+}
+
+// How failed downloads are retried; unset fields use the defaults
+export interface DocumentFetcherRetryPolicy {
+  // Including the first attempt; 1 turns retries off. Default 3.
+  maxAttempts?: number;
+  // Delay before the first retry, doubled for each further one. Default 1000.
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Pick a random delay up to the backoff, so parallel downloads don't retry in step. Default true.
+  jitter?: boolean;
+  // Longest Retry-After (429/503) waited for; a longer one ends the retries. Default 60000.
+  maxRetryAfterMs?: number;
+  // Default ['timeout', 'network', 'rate-limited', 'server-error']
+  retryOn?: DocumentFetchErrorClass[];
 }
 
+// What kind of error ended a download attempt
+export type DocumentFetchErrorClass =
+  | 'timeout'
+  | 'network'
+  // HTTP 429
+  | 'rate-limited'
+  // HTTP 5xx
+  | 'server-error'
+  // Other HTTP 4xx
+  | 'client-error'
+  // A web page came back instead of the file
+  | 'html-response'
+  | 'file-system'
+  | 'cancelled'
+  | 'unknown';
+
+// Provider a spreadsheet link was resolved to
+export type DocumentSource = 'google-drive' | 'google-docs' | 'dropbox' | 'onedrive' | 'http';
+
+// Why a download failed, when the provider told us
+export type DocumentFetchFailureReason =
+  | 'permission-denied'
+  | 'not-found'
+  | 'quota-exceeded'
+  // A confirmation page (e.g. Drive's virus-scan warning) could not be followed
+  | 'needs-confirmation'
+  // Some other web page came back instead of the file
+  | 'unexpected-html';
+
 export interface DocumentFetcherResult extends ProcessingResult {
   regNo: string;
   column: string;
+  source?: DocumentSource;
+  failureReason?: DocumentFetchFailureReason;
+  // Download attempts made, counting retries
+  attempts?: number;
+  // Error class of the last failed attempt
+  errorClass?: DocumentFetchErrorClass;
   fileName?: string;
   fileSize?: number;
   filePath?: string;
+  // Id of another student's result with byte-for-byte the same file
+  duplicateOf?: string;
+  // Size of the download before the column's processing rule was applied
+  originalFileSize?: number;
+  // Why the file broke its column's validation rule
+  warnings?: DocumentValidationWarning[];
+}
+
+// Re-run only some items of a finished document-fetch job
+export interface DocumentFetcherRetry {
+  resultIds: string[];
+  previousResults: DocumentFetcherResult[];
+  // Continuing a job interrupted by a shutdown rather than retrying failures
+  resumed?: boolean;
+}
+
+// A saved spreadsheet and config that is re-run on a cron schedule
+export interface DocumentFetcherSchedule {
+  id: string;
+  accessToken: string;
+  name: string;
+  cron: string;
+  data: StudentRecord[];
+  config: DocumentFetcherConfig;
+  keepRuns: number;
+  paused: boolean;
+  callbackUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt?: string;
+  nextRunAt?: string;
+  runs: DocumentFetcherScheduleRun[];
+}
+
+export interface DocumentFetcherScheduleRun {
+  jobId: string;
+  accessToken?: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  startTime: string;
+  endTime?: string;
+  totalProcessed?: number;
+  totalFailed?: number;
+  totalSkipped?: number;
+  totalWarnings?: number;
+  zipPath?: string;
+  error?: string;
+  results: DocumentFetcherResult[];
 }
 
 // File Converter Types
@@ -94,6 +344,7 @@ export interface QRCodeResult extends ProcessingResult {
   qrCodeUrl: string;
   downloadUrl: string;
   size: number;
+  fileSize?: number;
   format: 'png' | 'svg' | 'pdf';
   error?: string;
 }
@@ -148,59 +399,239 @@ export interface ImageResizerResult extends ProcessingResult {
 }
 
 // Socket.IO Event Types
-export interface SocketEvents {
-  // Connection events
-  'connect': () => void;
-  'disconnect': (reason: string) => void;
-  'connect_error': (error: Error) => void;
-  
+// Shared with the frontend client, which imports these as types only.
+
+export interface JobEventBase {
+  jobId: string;
+  timestamp: string;
+  // Position in the job's event log, added by the server
+  seq?: number;
+}
+
+// Elapsed time, rates and ETA, sent with progress and final events
+export interface JobThroughput {
+  elapsedSeconds: number;
+  bytesProcessed: number;
+  itemsPerSecond: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null;
+}
+
+export interface JobStartEvent<TConfig> extends JobEventBase {
+  total: number;
+  config?: TConfig;
+}
+
+// The route announces the job first, the service follows with task counts
+export interface DocumentFetcherStartEvent extends JobEventBase {
+  totalRecords: number;
+  config?: DocumentFetcherConfig;
+  totalTasks?: number;
+  skippedTasks?: number;
+  downloadTasks?: number;
+  scheduleId?: string;
+}
+
+// Throughput is missing while the job is still queued
+export interface JobProgressEvent<TResult> extends JobEventBase, Partial<JobThroughput> {
+  current: number;
+  total: number;
+  progress: number;
+  result?: TResult;
+  // Set while the job waits in the queue
+  status?: 'queued';
+  queuePosition?: number;
+  queueLength?: number;
+}
+
+export interface JobCompleteEvent<TResult> extends JobEventBase, JobThroughput {
+  totalProcessed: number;
+  totalFailed?: number;
+  zipPath?: string;
+  results: TResult[];
+}
+
+export interface JobCancelledEvent<TResult> extends JobCompleteEvent<TResult> {
+  totalCancelled: number;
+}
+
+export interface JobErrorEvent extends JobEventBase {
+  error: string;
+}
+
+export interface DocumentFetcherCompleteEvent extends JobCompleteEvent<DocumentFetcherResult> {
+  totalSkipped: number;
+  totalRetried?: number;
+  totalWarnings: number;
+  // Columns with validation rules that had at least one violation
+  violations: { [column: string]: DocumentColumnViolations };
+}
+
+export interface DocumentFetcherCancelledEvent extends JobCancelledEvent<DocumentFetcherResult> {
+  totalSkipped: number;
+}
+
+export interface DocumentFetcherDownloadStartEvent extends JobEventBase {
+  regNo: string;
+  column: string;
+  url: string;
+}
+
+export interface DocumentFetcherDownloadCompleteEvent extends JobEventBase {
+  regNo: string;
+  column: string;
+  filePath: string;
+}
+
+export interface DocumentFetcherDownloadErrorEvent extends JobEventBase {
+  regNo: string;
+  column: string;
+  error: string;
+  reason?: DocumentFetchFailureReason;
+  errorClass: DocumentFetchErrorClass;
+  attempts: number;
+}
+
+// Bytes received so far for one file; sent at most every half second while it downloads
+export interface DocumentFetcherDownloadProgressEvent extends JobEventBase {
+  regNo: string;
+  column: string;
+  bytesReceived: number;
+  // From Content-Length; null when the server didn't send it
+  totalBytes: number | null;
+  // 0-100, null without totalBytes
+  percent: number | null;
+  bytesPerSecond: number;
+  attempt: number;
+}
+
+// An attempt failed and the download will be tried again after `delayMs`
+export interface DocumentFetcherDownloadRetryEvent extends JobEventBase {
+  regNo: string;
+  column: string;
+  error: string;
+  errorClass: DocumentFetchErrorClass;
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
+
+export interface PasswordFiles {
+  txt: string;
+  csv: string;
+  json: string;
+}
+
+export interface PasswordGeneratorCompleteEvent extends JobCompleteEvent<PasswordResult> {
+  files?: PasswordFiles;
+}
+
+export interface PasswordGeneratorCancelledEvent extends JobCancelledEvent<PasswordResult> {
+  files?: PasswordFiles;
+}
+
+export interface JoinJobRequest {
+  jobId: string;
+  token: string;
+  lastSeq?: number;
+}
+
+export interface JobSnapshotEvent {
+  jobId: string;
+  seq: number;
+  truncated: boolean;
+  replayed: number;
+  job: Omit<JobStatus, 'accessToken' | 'input'> | null;
+  timestamp: string;
+}
+
+export interface JobCancelResponse {
+  success: boolean;
+  error?: string;
+}
+
+export interface ServerToClientEvents {
   // Job management
-  'join:job': (jobId: string) => void;
-  'leave:job': (jobId: string) => void;
   'joined:job': (data: { jobId: string; message: string }) => void;
-  
+  'join:job:error': (data: { jobId: string; error: string }) => void;
+  'job:snapshot': (data: JobSnapshotEvent) => void;
+
   // Test events
-  'test': (data: any) => void;
-  'test:response': (data: any) => void;
-  
+  'test:response': (data: { message: string; timestamp: string; clientId: string }) => void;
+
   // Server status
   'server:status': (data: {
     connectedClients: number;
     timestamp: string;
     uptime: number;
   }) => void;
-  
+
   // Document Fetcher events
-  'document-fetcher:start': (data: any) => void;
-  'document-fetcher:progress': (data: any) => void;
-  'document-fetcher:complete': (data: any) => void;
-  'document-fetcher:error': (data: any) => void;
-  
+  'document-fetcher:start': (data: DocumentFetcherStartEvent) => void;
+  'document-fetcher:progress': (data: JobProgressEvent<DocumentFetcherResult>) => void;
+  'document-fetcher:download-start': (data: DocumentFetcherDownloadStartEvent) => void;
+  'document-fetcher:download-progress': (data: DocumentFetcherDownloadProgressEvent) => void;
+  'document-fetcher:download-complete': (data: DocumentFetcherDownloadCompleteEvent) => void;
+  'document-fetcher:download-error': (data: DocumentFetcherDownloadErrorEvent) => void;
+  'document-fetcher:download-retry': (data: DocumentFetcherDownloadRetryEvent) => void;
+  'document-fetcher:complete': (data: DocumentFetcherCompleteEvent) => void;
+  'document-fetcher:error': (data: JobErrorEvent) => void;
+  'document-fetcher:cancelled': (data: DocumentFetcherCancelledEvent) => void;
+
   // File Converter events
-  'file-converter:start': (data: any) => void;
-  'file-converter:progress': (data: any) => void;
-  'file-converter:complete': (data: any) => void;
-  'file-converter:error': (data: any) => void;
-  
+  'file-converter:start': (data: JobStartEvent<FileConverterConfig>) => void;
+  'file-converter:progress': (data: JobProgressEvent<FileConverterResult>) => void;
+  'file-converter:complete': (data: JobCompleteEvent<FileConverterResult>) => void;
+  'file-converter:error': (data: JobErrorEvent) => void;
+  'file-converter:cancelled': (data: JobCancelledEvent<FileConverterResult>) => void;
+
   // QR Code events
-  'qr-code:start': (data: any) => void;
-  'qr-code:progress': (data: any) => void;
-  'qr-code:complete': (data: any) => void;
-  'qr-code:error': (data: any) => void;
-  
+  'qr-code:start': (data: JobStartEvent<QRCodeConfig>) => void;
+  'qr-code:progress': (data: JobProgressEvent<QRCodeResult>) => void;
+  'qr-code:complete': (data: JobCompleteEvent<QRCodeResult>) => void;
+  'qr-code:error': (data: JobErrorEvent) => void;
+  'qr-code:cancelled': (data: JobCancelledEvent<QRCodeResult>) => void;
+
   // Password Generator events
-  'password-generator:start': (data: any) => void;
-  'password-generator:progress': (data: any) => void;
-  'password-generator:complete': (data: any) => void;
-  'password-generator:error': (data: any) => void;
-  
+  'password-generator:start': (data: JobStartEvent<PasswordConfig>) => void;
+  'password-generator:progress': (data: JobProgressEvent<PasswordResult>) => void;
+  'password-generator:complete': (data: PasswordGeneratorCompleteEvent) => void;
+  'password-generator:error': (data: JobErrorEvent) => void;
+  'password-generator:cancelled': (data: PasswordGeneratorCancelledEvent) => void;
+
   // Image Resizer events
-  'image-resizer:start': (data: any) => void;
-  'image-resizer:progress': (data: any) => void;
-  'image-resizer:complete': (data: any) => void;
-  'image-resizer:error': (data: any) => void;
+  'image-resizer:start': (data: JobStartEvent<ImageResizerConfig>) => void;
+  'image-resizer:progress': (data: JobProgressEvent<ImageResizerResult>) => void;
+  'image-resizer:complete': (data: JobCompleteEvent<ImageResizerResult>) => void;
+  'image-resizer:error': (data: JobErrorEvent) => void;
+  'image-resizer:cancelled': (data: JobCancelledEvent<ImageResizerResult>) => void;
 }
 
+export interface ClientToServerEvents {
+  // Job management
+  'join:job': (data: JoinJobRequest) => void;
+  'leave:job': (jobId: string) => void;
+  'job:cancel': (jobId: string, ack?: (response: JobCancelResponse) => void) => void;
+
+  // Test events
+  'test': (data: unknown) => void;
+
+  // Start announcements, relayed to the other members of the job room
+  'document-fetcher:start': (data: DocumentFetcherStartEvent) => void;
+  'file-converter:start': (data: JobStartEvent<FileConverterConfig>) => void;
+  'qr-code:start': (data: JobStartEvent<QRCodeConfig>) => void;
+  'password-generator:start': (data: JobStartEvent<PasswordConfig>) => void;
+  'image-resizer:start': (data: JobStartEvent<ImageResizerConfig>) => void;
+}
+
+export interface SocketData {
+  jobId?: string;
+  userId?: string;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];
+
 // File upload types
 export interface UploadedFile {
   fieldname: string;
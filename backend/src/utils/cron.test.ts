@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextCronRun, isValidCron, parseCron } from './cron.js';
+
+// Dates are built in local time, which is what schedules run in
+function next(expression: string, from: Date): Date | null {
+  return getNextCronRun(expression, from);
+}
+
+test('fields accept lists, ranges, steps and names', () => {
+  const cron = parseCron('0-30/10 9,17 * jan-mar mon-fri');
+  assert.deepEqual([...cron.minute.values], [0, 10, 20, 30]);
+  assert.deepEqual([...cron.hour.values], [9, 17]);
+  assert.deepEqual([...cron.month.values], [1, 2, 3]);
+  assert.deepEqual([...cron.dayOfWeek.values], [1, 2, 3, 4, 5]);
+  assert.deepEqual([...parseCron('5/20 * * * *').minute.values], [5, 25, 45]);
+});
+
+test('7 is Sunday and shortcuts expand', () => {
+  assert.deepEqual([...parseCron('0 0 * * 7').dayOfWeek.values], [0]);
+  assert.deepEqual(parseCron('@weekly'), parseCron('0 0 * * 0'));
+  assert.deepEqual(parseCron('@DAILY'), parseCron('0 0 * * *'));
+});
+
+test('invalid expressions are rejected with a reason', () => {
+  assert.throws(() => parseCron('* * * *'), /expected 5 fields/);
+  assert.throws(() => parseCron('60 * * * *'), /minute value out of range/);
+  assert.throws(() => parseCron('* * 0 * *'), /day of month value out of range/);
+  assert.throws(() => parseCron('*/0 * * * *'), /Invalid step/);
+  assert.throws(() => parseCron('* * * foo *'), /Invalid month value "foo"/);
+  assert.throws(() => parseCron('5-1 * * * *'), /out of range/);
+  assert.equal(isValidCron('*/15 * * * *'), true);
+  assert.equal(isValidCron('every day'), false);
+});
+
+test('the next run is strictly after the start time', () => {
+  assert.deepEqual(next('*/15 * * * *', new Date(2025, 0, 1, 10, 7, 30)), new Date(2025, 0, 1, 10, 15));
+  assert.deepEqual(next('*/15 * * * *', new Date(2025, 0, 1, 10, 15)), new Date(2025, 0, 1, 10, 30));
+  assert.deepEqual(next('30 2 * * *', new Date(2025, 0, 1, 3, 0)), new Date(2025, 0, 2, 2, 30));
+  assert.deepEqual(next('@yearly', new Date(2025, 5, 1)), new Date(2026, 0, 1, 0, 0));
+});
+
+test('weekdays and month ends are found', () => {
+  // 2025-01-03 is a Friday
+  assert.deepEqual(next('0 9 * * mon', new Date(2025, 0, 3, 12, 0)), new Date(2025, 0, 6, 9, 0));
+  assert.deepEqual(next('0 0 31 * *', new Date(2025, 1, 1)), new Date(2025, 2, 31, 0, 0));
+  assert.deepEqual(next('0 0 29 2 *', new Date(2025, 0, 1)), new Date(2028, 1, 29, 0, 0));
+});
+
+test('either day field matches when both are restricted', () => {
+  // The 15th, or any Monday: 2025-01-06 is a Monday, before the 15th
+  assert.deepEqual(next('0 0 15 * 1', new Date(2025, 0, 3)), new Date(2025, 0, 6, 0, 0));
+  // With a wildcard day of week only the day of month counts
+  assert.deepEqual(next('0 0 15 * *', new Date(2025, 0, 3)), new Date(2025, 0, 15, 0, 0));
+});
+
+test('impossible dates have no next run', () => {
+  assert.equal(next('0 0 31 2 *', new Date(2025, 0, 1)), null);
+});
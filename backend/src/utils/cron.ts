@@ -0,0 +1,176 @@
+// Minimal 5-field cron parser: minute hour day-of-month month day-of-week.
+// Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*/15`, `0-30/5`) and
+// names for months and weekdays. Times are evaluated in server local time.
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+export interface CronExpression {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const SHORTCUTS: { [key: string]: string } = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+// Look at most this far ahead for the next match (covers leap days)
+const MAX_LOOKAHEAD_MINUTES = 5 * 366 * 24 * 60;
+
+// Throws an Error with a readable message for invalid expressions
+export function parseCron(expression: string): CronExpression {
+  const normalized = SHORTCUTS[expression.trim().toLowerCase()] || expression.trim();
+  const parts = normalized.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const dayOfWeek = parseField(parts[4], 0, 7, DAY_NAMES, 'day of week');
+  // 7 is Sunday as well
+  if (dayOfWeek.values.delete(7)) {
+    dayOfWeek.values.add(0);
+  }
+
+  return {
+    minute: parseField(parts[0], 0, 59, null, 'minute'),
+    hour: parseField(parts[1], 0, 23, null, 'hour'),
+    dayOfMonth: parseField(parts[2], 1, 31, null, 'day of month'),
+    month: parseField(parts[3], 1, 12, MONTH_NAMES, 'month'),
+    dayOfWeek
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Next time strictly after `from` that matches the expression, or null if none
+export function getNextCronRun(expression: string | CronExpression, from: Date = new Date()): Date | null {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const candidate = new Date(from.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_LOOKAHEAD_MINUTES; i++) {
+    if (!cron.month.values.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0);
+      continue;
+    }
+
+    if (!cron.hour.values.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0);
+      continue;
+    }
+
+    if (!cron.minute.values.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  return null;
+}
+
+// Standard cron rule: when both day fields are restricted, either may match
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const domMatch = cron.dayOfMonth.values.has(date.getDate());
+  const dowMatch = cron.dayOfWeek.values.has(date.getDay());
+
+  if (cron.dayOfMonth.wildcard || cron.dayOfWeek.wildcard) {
+    return domMatch && dowMatch;
+  }
+  return domMatch || dowMatch;
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] | null,
+  label: string
+): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || !rangePart) {
+      throw new Error(`Invalid ${label} field "${field}"`);
+    }
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${label} field`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, names, label);
+      end = parseValue(to, names, label);
+    } else {
+      start = parseValue(rangePart, names, label);
+      // `5/15` means every 15 starting at 5
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`${label} value out of range in "${field}" (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  // Like Vixie cron, a field starting with `*` counts as unrestricted for the day rule
+  return { values, wildcard: field.startsWith('*') };
+}
+
+function parseValue(value: string, names: string[] | null, label: string): number {
+  if (names) {
+    const index = names.indexOf(value.toLowerCase());
+    if (index !== -1) {
+      // Month names are 1-based, weekday names 0-based
+      return names === MONTH_NAMES ? index + 1 : index;
+    }
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${label} value "${value}"`);
+  }
+  return Number(value);
+}
@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { delay } from './delay.js';
+
+test('delay resolves true once the time has passed', async () => {
+  assert.equal(await delay(5), true);
+});
+
+test('delay resolves false as soon as the signal aborts', async () => {
+  const controller = new AbortController();
+  const started = Date.now();
+  setTimeout(() => controller.abort(), 5);
+
+  assert.equal(await delay(10000, controller.signal), false);
+  assert.ok(Date.now() - started < 1000);
+  assert.equal(await delay(10000, controller.signal), false);
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_FILE_NAME_TEMPLATE,
+  MAX_FILE_NAME_LENGTH,
+  claimFileName,
+  renderFileName,
+  sanitizeFileName,
+  validateFileNameTemplate
+} from './fileNaming.js';
+
+const context = { id: 'REG001', column: 'Photo', folder: 'REG001', row: 3 };
+
+test('templates may only use built-ins and sheet columns', () => {
+  const fields = ['Name', 'Class'];
+  assert.equal(validateFileNameTemplate(DEFAULT_FILE_NAME_TEMPLATE, fields), null);
+  assert.equal(validateFileNameTemplate('{name}-{class}_{row}', fields), null);
+
+  assert.equal(validateFileNameTemplate('', fields), 'fileNameTemplate must be a non-empty string');
+  assert.equal(validateFileNameTemplate('{id', fields), 'fileNameTemplate has an unmatched brace');
+  assert.equal(validateFileNameTemplate('photo', fields), 'fileNameTemplate needs at least one placeholder, e.g. {id}');
+  assert.match(validateFileNameTemplate('{id}_{surname}', fields), /Unknown placeholder \{surname\}/);
+});
+
+test('placeholders are filled from the row and the context', () => {
+  const row = { Name: 'Ada Lovelace', ID: 'sheet-id', Class: 7 };
+  assert.equal(renderFileName('{Name}_{column}', row, context), 'Ada_Lovelace_Photo');
+  // Built-ins win over a column with the same name in another case
+  assert.equal(renderFileName('{id}-{ID}', row, context), 'REG001-sheet-id');
+  assert.equal(renderFileName('{class}_{row}', row, context), '7_3');
+});
+
+test('empty names fall back to the row and column', () => {
+  assert.equal(renderFileName('{Name}', { Name: '' }, context), 'row-3_Photo');
+  assert.equal(renderFileName('{Name}', { Name: null }, context), 'row-3_Photo');
+});
+
+test('names are made safe for every file system', () => {
+  assert.equal(sanitizeFileName('a/b\\c:d*e?"f<g>|h'), 'a_b_c_d_e_f_g_h');
+  assert.equal(sanitizeFileName('  ..hidden name.  '), 'hidden_name');
+  assert.equal(sanitizeFileName('CON'), '_CON');
+  assert.equal(sanitizeFileName('lpt1'), '_lpt1');
+  assert.equal(sanitizeFileName('école'), 'école');
+});
+
+test('long names are cut without splitting characters', () => {
+  assert.equal(sanitizeFileName('x'.repeat(200)).length, MAX_FILE_NAME_LENGTH);
+  assert.equal(sanitizeFileName('😀'.repeat(3), 2), '😀😀');
+});
+
+test('taken names get a numbered suffix, ignoring case', () => {
+  const used = new Set<string>();
+  assert.equal(claimFileName('Photo', used), 'Photo');
+  assert.equal(claimFileName('photo', used), 'photo_2');
+  assert.equal(claimFileName('PHOTO', used), 'PHOTO_3');
+
+  const long = 'y'.repeat(MAX_FILE_NAME_LENGTH);
+  claimFileName(long, used);
+  const second = claimFileName(long, used);
+  assert.equal(second.length, MAX_FILE_NAME_LENGTH);
+  assert.ok(second.endsWith('_2'));
+});
@@ -0,0 +1,106 @@
+import { StudentRecord } from '../types/index.js';
+
+// Same names as before templates existed: `${regNo}_${column}`
+export const DEFAULT_FILE_NAME_TEMPLATE = '{id}_{column}';
+// Base name without extension; leaves room for a collision suffix and extension
+export const MAX_FILE_NAME_LENGTH = 120;
+
+// Placeholders that are not row fields
+const BUILT_IN_FIELDS = ['id', 'column', 'folder', 'row'];
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+// Names Windows refuses, even with an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])$/i;
+
+export interface FileNameContext {
+  id: string;
+  column: string;
+  folder: string;
+  // 1-based spreadsheet data row
+  row: number;
+}
+
+// Check that every placeholder is a built-in or one of the given row fields
+export function validateFileNameTemplate(template: unknown, fields: string[]): string | null {
+  if (typeof template !== 'string' || !template.trim()) {
+    return 'fileNameTemplate must be a non-empty string';
+  }
+
+  if (template.replace(PLACEHOLDER, '').match(/[{}]/)) {
+    return 'fileNameTemplate has an unmatched brace';
+  }
+
+  const placeholders = Array.from(template.matchAll(PLACEHOLDER), match => match[1]);
+  if (placeholders.length === 0) {
+    return 'fileNameTemplate needs at least one placeholder, e.g. {id}';
+  }
+
+  const unknown = placeholders.filter(name => !resolveField(name, fields));
+  if (unknown.length > 0) {
+    return `Unknown placeholder ${unknown.map(name => `{${name}}`).join(', ')} in fileNameTemplate. Use a column name or one of ${BUILT_IN_FIELDS.map(name => `{${name}}`).join(', ')}`;
+  }
+
+  return null;
+}
+
+// Fill in a template and make the result safe to use as a file name (without extension)
+export function renderFileName(template: string, row: StudentRecord, context: FileNameContext): string {
+  const fields = Object.keys(row);
+
+  const rendered = template.replace(PLACEHOLDER, (_, name: string) => {
+    const field = resolveField(name, fields);
+    if (!field) return '';
+    if (field.builtIn) return String(context[field.name as keyof FileNameContext]);
+
+    const value = row[field.name];
+    return value === undefined || value === null ? '' : String(value);
+  });
+
+  return sanitizeFileName(rendered) || sanitizeFileName(`row-${context.row}_${context.column}`);
+}
+
+export function sanitizeFileName(name: string, maxLength = MAX_FILE_NAME_LENGTH): string {
+  let safe = name
+    .normalize('NFC')
+    .replace(/[<>:"/\\|?*\u0000-\u001f\u007f]/g, '_')
+    .replace(/\s+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^[._]+|[._ ]+$/g, '');
+
+  if (RESERVED_NAMES.test(safe)) {
+    safe = `_${safe}`;
+  }
+
+  return truncate(safe, maxLength);
+}
+
+// Add _2, _3, ... when the name is already taken in the same folder.
+// `used` holds lower-case names, since some file systems ignore case.
+export function claimFileName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    const suffix = `_${n}`;
+    name = truncate(base, MAX_FILE_NAME_LENGTH - suffix.length) + suffix;
+  }
+
+  used.add(name.toLowerCase());
+  return name;
+}
+
+// Built-ins match exactly (lower case), so a sheet column "ID" is still reachable as {ID}.
+// A case-insensitive match on row fields is the last resort.
+function resolveField(name: string, fields: string[]): { name: string; builtIn: boolean } | null {
+  const trimmed = name.trim();
+
+  if (BUILT_IN_FIELDS.includes(trimmed)) return { name: trimmed, builtIn: true };
+  if (fields.includes(trimmed)) return { name: trimmed, builtIn: false };
+
+  const lower = trimmed.toLowerCase();
+  const field = fields.find(candidate => candidate.toLowerCase() === lower);
+  return field ? { name: field, builtIn: false } : null;
+}
+
+function truncate(name: string, maxLength: number): string {
+  // Array.from keeps surrogate pairs together
+  const chars = Array.from(name);
+  return chars.length > maxLength ? chars.slice(0, maxLength).join('').replace(/[._ ]+$/, '') : name;
+}
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectFileType, fileTypeFor, matchesType, resolveExtension } from './fileType.js';
+
+// A stored ZIP local file entry
+function zipEntry(name: string, data = '', flags = 0): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(flags, 6);
+  header.writeUInt32LE(data.length, 18);
+  header.writeUInt32LE(data.length, 22);
+  header.writeUInt16LE(Buffer.byteLength(name), 26);
+  return Buffer.concat([header, Buffer.from(name), Buffer.from(data)]);
+}
+
+function detect(bytes: Buffer | string): string | undefined {
+  return detectFileType(Buffer.from(bytes))?.extension;
+}
+
+test('image and PDF signatures are recognised', () => {
+  assert.equal(detect(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0])), 'png');
+  assert.equal(detect(Buffer.from([0xff, 0xd8, 0xff, 0xe0])), 'jpg');
+  assert.equal(detect('GIF89a....'), 'gif');
+  assert.equal(detect('RIFF\0\0\0\0WEBPVP8 '), 'webp');
+  assert.equal(detect(Buffer.from([0x49, 0x49, 0x2a, 0x00])), 'tiff');
+  assert.equal(detect('\0\0\0\x1cftypavif'), 'avif');
+  assert.equal(detect('%PDF-1.7\n'), 'pdf');
+  // Junk before the header is allowed
+  assert.equal(detect('\r\n\r\n%PDF-1.4'), 'pdf');
+  assert.equal(detect('{\\rtf1\\ansi'), 'rtf');
+});
+
+test('ZIP based documents are told apart by their entries', () => {
+  assert.equal(detect(Buffer.concat([zipEntry('[Content_Types].xml', '<x/>'), zipEntry('word/document.xml')])), 'docx');
+  assert.equal(detect(Buffer.concat([zipEntry('_rels/.rels'), zipEntry('xl/workbook.xml')])), 'xlsx');
+  assert.equal(detect(zipEntry('ppt/presentation.xml')), 'pptx');
+  assert.equal(detect(zipEntry('mimetype', 'application/vnd.oasis.opendocument.text')), 'odt');
+  assert.equal(detect(zipEntry('photos/a.jpg', 'data')), 'zip');
+  // With a data descriptor the entries can't be walked, so the part names are searched
+  assert.equal(detect(Buffer.concat([zipEntry('[Content_Types].xml', '', 0x08), Buffer.from('....xl/workbook.xml')])), 'xlsx');
+});
+
+test('legacy Office files are told apart by their stream names', () => {
+  const ole = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+  assert.equal(detect(Buffer.concat([ole, Buffer.from('WordDocument', 'utf16le')])), 'doc');
+  assert.equal(detect(Buffer.concat([ole, Buffer.from('Workbook', 'utf16le')])), 'xls');
+  assert.equal(detect(Buffer.concat([ole, Buffer.from('PowerPoint Document', 'utf16le')])), 'ppt');
+  assert.equal(detect(ole), 'cfb');
+});
+
+test('text is sorted into HTML, CSV and plain text', () => {
+  assert.equal(detect('<!DOCTYPE html><html><body>Sign in</body></html>'), 'html');
+  assert.equal(detect('\uFEFFregNo,name\n1,"Lovelace, Ada"\n2,Turing\n'), 'csv');
+  assert.equal(detect('a;b;c\n1;2;3\n'), 'csv');
+  assert.equal(detect('Dear parent,\nthe form is attached.\n'), 'txt');
+  assert.equal(detect(Buffer.from([0x01, 0x02, 0x03, 0x00, 0x05])), undefined);
+  assert.equal(detect(Buffer.alloc(0)), undefined);
+});
+
+test('extensions and MIME types map to the same info', () => {
+  assert.deepEqual(fileTypeFor('.JPEG'), fileTypeFor('image/jpeg'));
+  assert.equal(fileTypeFor('image/pjpeg').extension, 'jpg');
+  assert.equal(fileTypeFor('text/csv; charset=utf-8').extension, 'csv');
+  assert.equal(fileTypeFor('tif').mimeType, 'image/tiff');
+  assert.equal(fileTypeFor('application/octet-stream'), null);
+  assert.equal(fileTypeFor('exe'), null);
+});
+
+test('the claimed type is kept when the bytes allow it', () => {
+  const zip = fileTypeFor('zip');
+  assert.equal(matchesType(zip, 'docx'), true);
+  assert.equal(matchesType(fileTypeFor('png'), 'jpg'), false);
+  assert.equal(matchesType(fileTypeFor('png'), 'application/octet-stream'), true);
+
+  assert.equal(resolveExtension(zip, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'), 'docx');
+  assert.equal(resolveExtension(fileTypeFor('png'), '.jpg'), 'png');
+  assert.equal(resolveExtension(null, 'pdf'), 'pdf');
+  assert.equal(resolveExtension(null), null);
+});
@@ -0,0 +1,229 @@
+import fs from 'fs-extra';
+import { FileTypeInfo } from '../types/index.js';
+
+// Bytes read from the start of a file; enough for the first entries of a ZIP
+export const SNIFF_BYTES = 64 * 1024;
+
+// Detectable types by extension. `supported` marks formats one of the tools accepts.
+const FILE_TYPES: { [extension: string]: Omit<FileTypeInfo, 'extension'> } = {
+  pdf: { mimeType: 'application/pdf', category: 'document', supported: true },
+  png: { mimeType: 'image/png', category: 'image', supported: true },
+  jpg: { mimeType: 'image/jpeg', category: 'image', supported: true },
+  webp: { mimeType: 'image/webp', category: 'image', supported: true },
+  gif: { mimeType: 'image/gif', category: 'image', supported: true },
+  tiff: { mimeType: 'image/tiff', category: 'image', supported: true },
+  avif: { mimeType: 'image/avif', category: 'image', supported: true },
+  docx: { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', category: 'document', supported: true },
+  xlsx: { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', category: 'document', supported: true },
+  pptx: { mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', category: 'document', supported: false },
+  odt: { mimeType: 'application/vnd.oasis.opendocument.text', category: 'document', supported: true },
+  ods: { mimeType: 'application/vnd.oasis.opendocument.spreadsheet', category: 'document', supported: false },
+  odp: { mimeType: 'application/vnd.oasis.opendocument.presentation', category: 'document', supported: false },
+  doc: { mimeType: 'application/msword', category: 'document', supported: true },
+  xls: { mimeType: 'application/vnd.ms-excel', category: 'document', supported: true },
+  ppt: { mimeType: 'application/vnd.ms-powerpoint', category: 'document', supported: false },
+  rtf: { mimeType: 'application/rtf', category: 'document', supported: true },
+  csv: { mimeType: 'text/csv', category: 'document', supported: true },
+  txt: { mimeType: 'text/plain', category: 'document', supported: true },
+  html: { mimeType: 'text/html', category: 'other', supported: false },
+  zip: { mimeType: 'application/zip', category: 'archive', supported: true },
+  // Old Office file whose streams were not in the bytes read
+  cfb: { mimeType: 'application/x-cfb', category: 'document', supported: false }
+};
+
+// Detected types that can be more than one format. The claimed or header type
+// is kept when it is one of these.
+const CONTAINERS: { [extension: string]: string[] } = {
+  zip: ['docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp'],
+  cfb: ['doc', 'xls', 'ppt'],
+  txt: ['csv', 'html'],
+  csv: ['txt']
+};
+
+const EXTENSION_ALIASES: { [alias: string]: string } = {
+  jpeg: 'jpg',
+  jpe: 'jpg',
+  tif: 'tiff',
+  htm: 'html',
+  text: 'txt'
+};
+
+// MIME types browsers and servers send besides the ones in FILE_TYPES
+const MIME_ALIASES: { [mimeType: string]: string } = {
+  'image/jpg': 'jpg',
+  'image/pjpeg': 'jpg',
+  'text/rtf': 'rtf',
+  'application/csv': 'csv',
+  'application/x-zip-compressed': 'zip',
+  'application/xhtml+xml': 'html'
+};
+
+// Type info for an extension (with or without the dot) or a MIME type
+export function fileTypeFor(extensionOrMimeType: string): FileTypeInfo | null {
+  const extension = normalizeType(extensionOrMimeType);
+  return extension ? { extension, ...FILE_TYPES[extension] } : null;
+}
+
+export function detectFileType(header: Buffer): FileTypeInfo | null {
+  const extension = sniff(header);
+  return extension ? fileTypeFor(extension) : null;
+}
+
+export async function detectFileTypeOfFile(filePath: string): Promise<FileTypeInfo | null> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await fs.read(handle, buffer, 0, SNIFF_BYTES, 0);
+    return detectFileType(buffer.subarray(0, bytesRead));
+  } finally {
+    await fs.close(handle);
+  }
+}
+
+// Whether content of the detected type can be what the name or header says it is
+export function matchesType(detected: FileTypeInfo, claimed: string): boolean {
+  const extension = normalizeType(claimed);
+  if (!extension) return true;
+  return extension === detected.extension || Boolean(CONTAINERS[detected.extension]?.includes(extension));
+}
+
+// Extension (without the dot) for a file of the detected type. `hint` is the
+// type from headers or the file name, used when the bytes are not specific enough.
+export function resolveExtension(detected: FileTypeInfo | null, hint?: string): string | null {
+  const hinted = hint ? normalizeType(hint) : null;
+  if (!detected) return hinted;
+  return hinted && matchesType(detected, hinted) ? hinted : detected.extension;
+}
+
+function normalizeType(type: string): string | null {
+  const value = type.trim().toLowerCase().split(';')[0].trim();
+
+  if (value.includes('/')) {
+    if (MIME_ALIASES[value]) return MIME_ALIASES[value];
+    return Object.keys(FILE_TYPES).find(extension => FILE_TYPES[extension].mimeType === value) || null;
+  }
+
+  const extension = value.replace(/^\./, '');
+  const resolved = EXTENSION_ALIASES[extension] || extension;
+  return FILE_TYPES[resolved] ? resolved : null;
+}
+
+function sniff(bytes: Buffer): string | null {
+  if (bytes.length === 0) return null;
+
+  const ascii = (start: number, end: number) => bytes.toString('latin1', start, end);
+
+  // Readers accept junk before the PDF header, so look through the first 1 KB
+  if (bytes.subarray(0, 1024).includes('%PDF-')) return 'pdf';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpg';
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return 'tiff';
+  if (ascii(4, 8) === 'ftyp' && /^avi[fs]$/.test(ascii(8, 12))) return 'avif';
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])) return sniffZip(bytes);
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return sniffCompoundFile(bytes);
+  if (ascii(0, 5) === '{\\rtf') return 'rtf';
+
+  return sniffText(bytes);
+}
+
+// OOXML and ODF documents are ZIP files; tell them apart by their entries
+function sniffZip(bytes: Buffer): string {
+  // ODF stores an uncompressed "mimetype" entry first
+  if (bytes.toString('latin1', 30, 38) === 'mimetype') {
+    const mimeType = bytes.toString('latin1', 38, 38 + 64);
+    if (mimeType.startsWith('application/vnd.oasis.opendocument.text')) return 'odt';
+    if (mimeType.startsWith('application/vnd.oasis.opendocument.spreadsheet')) return 'ods';
+    if (mimeType.startsWith('application/vnd.oasis.opendocument.presentation')) return 'odp';
+  }
+
+  const names = zipEntryNames(bytes);
+  const has = (prefix: string) => names.some(name => name.startsWith(prefix));
+  if (has('word/')) return 'docx';
+  if (has('xl/')) return 'xlsx';
+  if (has('ppt/')) return 'pptx';
+
+  // Entries written with a data descriptor can't be walked; look for the main part instead
+  const text = bytes.toString('latin1');
+  if (text.includes('word/document.xml')) return 'docx';
+  if (text.includes('xl/workbook.xml')) return 'xlsx';
+  if (text.includes('ppt/presentation.xml')) return 'pptx';
+
+  return 'zip';
+}
+
+// Names of the local file entries in the bytes read
+function zipEntryNames(bytes: Buffer): string[] {
+  const names: string[] = [];
+  let offset = 0;
+
+  while (offset + 30 <= bytes.length && bytes.readUInt32LE(offset) === 0x04034b50) {
+    const flags = bytes.readUInt16LE(offset + 6);
+    const compressedSize = bytes.readUInt32LE(offset + 18);
+    const nameLength = bytes.readUInt16LE(offset + 26);
+    const extraLength = bytes.readUInt16LE(offset + 28);
+
+    names.push(bytes.toString('utf8', offset + 30, Math.min(offset + 30 + nameLength, bytes.length)));
+
+    // Size follows the data (bit 3), so the next entry can't be found
+    if (flags & 0x08) break;
+    offset += 30 + nameLength + extraLength + compressedSize;
+  }
+
+  return names;
+}
+
+// Legacy .doc/.xls/.ppt share the compound file format; the stream names tell them apart
+function sniffCompoundFile(bytes: Buffer): string {
+  const has = (name: string) => bytes.includes(Buffer.from(name, 'utf16le'));
+  if (has('WordDocument')) return 'doc';
+  if (has('Workbook') || has('Book')) return 'xls';
+  if (has('PowerPoint Document')) return 'ppt';
+  return 'cfb';
+}
+
+function sniffText(bytes: Buffer): string | null {
+  const sample = bytes.subarray(0, 8192);
+  if (sample.includes(0)) return null;
+
+  // Tabs, line breaks and form feeds are fine; other control characters mean binary data
+  let control = 0;
+  for (const byte of sample) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c) control++;
+  }
+  if (control > sample.length * 0.01) return null;
+
+  const text = sample.toString('utf8').replace(/^\uFEFF/, '');
+  if (/^\s*<(!doctype html|html|head|body)\b/i.test(text)) return 'html';
+
+  return looksLikeCsv(text, sample.length < bytes.length) ? 'csv' : 'txt';
+}
+
+// Same number of delimiters (outside quotes) on each of the first lines
+function looksLikeCsv(text: string, truncated: boolean): boolean {
+  const lines = text.split(/\r?\n/);
+  // The last line may be cut off
+  if (truncated) lines.pop();
+  const sample = lines.filter(line => line.trim()).slice(0, 20);
+  if (sample.length === 0) return false;
+
+  return [',', ';', '\t'].some((delimiter) => {
+    const counts = sample.map(line => countOutsideQuotes(line, delimiter));
+    return counts[0] > 0 && counts.every(count => count === counts[0]);
+  });
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+}
+
+function startsWith(bytes: Buffer, signature: number[]): boolean {
+  return bytes.length >= signature.length && signature.every((byte, i) => bytes[i] === byte);
+}
@@ -0,0 +1,74 @@
+import sharp from 'sharp';
+import { ImageResizerConfig } from '../types/index.js';
+
+export type ImageFormat = ImageResizerConfig['format'];
+export type ImageFit = ImageResizerConfig['fit'];
+
+export const IMAGE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp', 'avif'];
+export const IMAGE_FITS: ImageFit[] = ['cover', 'contain', 'fill', 'inside', 'outside'];
+
+export interface ImagePipelineOptions {
+  width?: number;
+  height?: number;
+  // Default 'cover'
+  fit?: ImageFit;
+  // Default 'jpeg'
+  format?: ImageFormat;
+  // Default 90
+  quality?: number;
+  // Cut away borders that match the top-left pixel before resizing
+  trim?: boolean;
+  // Scale images smaller than width × height up instead of keeping their size
+  enlarge?: boolean;
+  // PNG only: reduce to a palette, which is what makes `quality` apply to PNGs
+  palette?: boolean;
+}
+
+// Sharp pipeline shared by the image resizer and the document fetcher's column rules
+export function buildImagePipeline(input: string | Buffer, options: ImagePipelineOptions): sharp.Sharp {
+  let sharpInstance = sharp(input);
+
+  if (options.trim) {
+    sharpInstance = sharpInstance.trim();
+  }
+
+  // Apply resizing
+  if (options.width || options.height) {
+    sharpInstance = sharpInstance.resize({
+      width: options.width,
+      height: options.height,
+      fit: options.fit || 'cover',
+      withoutEnlargement: !options.enlarge
+    });
+  }
+
+  // Apply format conversion and quality
+  const quality = options.quality || 90;
+  switch (options.format || 'jpeg') {
+    case 'jpeg':
+      sharpInstance = sharpInstance.jpeg({
+        quality,
+        progressive: true
+      });
+      break;
+    case 'png':
+      sharpInstance = sharpInstance.png({
+        quality,
+        progressive: true,
+        palette: options.palette
+      });
+      break;
+    case 'webp':
+      sharpInstance = sharpInstance.webp({
+        quality
+      });
+      break;
+    case 'avif':
+      sharpInstance = sharpInstance.avif({
+        quality
+      });
+      break;
+  }
+
+  return sharpInstance;
+}
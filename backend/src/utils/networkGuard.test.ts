@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assertPublicUrl, isBlockedAddress, lookupPublicAddresses, publicRequestOptions } from './networkGuard.js';
+
+test('loopback, private, link-local and mapped addresses are blocked', () => {
+  for (const address of [
+    '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fd12::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe'
+  ]) {
+    assert.equal(isBlockedAddress(address), true, address);
+  }
+});
+
+test('public addresses and host names pass', () => {
+  for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:808:808', 'example.org']) {
+    assert.equal(isBlockedAddress(address), false, address);
+  }
+});
+
+test('assertPublicUrl allows only the given protocols and public IP literals', () => {
+  assert.doesNotThrow(() => assertPublicUrl('https://example.org/a.pdf'));
+  assert.throws(() => assertPublicUrl('http://example.org/a.pdf'), { code: 'ERR_BLOCKED_ADDRESS' });
+  assert.doesNotThrow(() => assertPublicUrl('http://example.org/hook', ['http:', 'https:']));
+  assert.throws(() => assertPublicUrl('https://169.254.169.254/latest/meta-data'), /private address/);
+  assert.throws(() => assertPublicUrl('https://[::1]:8080/'), /private address/);
+});
+
+test('host names resolving to loopback are refused', async () => {
+  await assert.rejects(lookupPublicAddresses('localhost'), { code: 'ERR_BLOCKED_ADDRESS' });
+});
+
+test('redirects are checked like the first request', () => {
+  const { beforeRedirect } = publicRequestOptions();
+  assert.throws(() => beforeRedirect({ href: 'https://10.0.0.5/internal' }, { headers: {}, statusCode: 302 }), /private address/);
+  assert.throws(() => beforeRedirect({ href: 'http://example.org/' }, { headers: {}, statusCode: 302 }), /Only https/);
+  assert.doesNotThrow(() => beforeRedirect({ href: 'https://example.org/file.pdf' }, { headers: {}, statusCode: 302 }));
+});
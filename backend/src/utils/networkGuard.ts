@@ -0,0 +1,102 @@
+import dns from 'dns';
+import net from 'net';
+import { AddressFamily, AxiosRequestConfig, LookupAddressEntry } from 'axios';
+
+// Addresses outbound requests made on behalf of users must not reach:
+// this host, private networks, link-local (cloud metadata) and the like
+const BLOCKED_SUBNETS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+const blockList = new net.BlockList();
+for (const [address, prefix, type] of BLOCKED_SUBNETS) {
+  blockList.addSubnet(address, prefix, type);
+}
+
+// Thrown before connecting to a blocked address; `code` survives axios wrapping it
+export class BlockedAddressError extends Error {
+  code = 'ERR_BLOCKED_ADDRESS';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const type = net.isIP(address);
+  if (type === 4) return blockList.check(address, 'ipv4');
+  if (type !== 6) return false;
+
+  // IPv4-mapped addresses (::ffff:10.0.0.1, or ::ffff:a00:1 as URLs write them) reach the IPv4 host
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (dotted) return blockList.check(dotted[1], 'ipv4');
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (hex) {
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+    return blockList.check(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`, 'ipv4');
+  }
+
+  return blockList.check(address, 'ipv6');
+}
+
+// Throws unless the URL uses one of `protocols` and its host is not a blocked
+// IP literal. Host names are checked when they are resolved, by publicLookup.
+export function assertPublicUrl(value: string | URL, protocols: string[] = ['https:']): void {
+  let url: URL;
+  try {
+    url = new URL(value.toString());
+  } catch {
+    throw new BlockedAddressError(`Invalid URL ${value}`);
+  }
+
+  if (!protocols.includes(url.protocol)) {
+    throw new BlockedAddressError(`Only ${protocols.map(protocol => protocol.replace(':', '')).join(' and ')} URLs are allowed, got ${url.protocol.replace(':', '')}`);
+  }
+
+  // Node connects to IP literals without a DNS lookup
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isBlockedAddress(host)) {
+    throw new BlockedAddressError(`Refusing to connect to private address ${host}`);
+  }
+}
+
+// Resolve a host name, failing when any of its addresses is blocked
+export async function lookupPublicAddresses(hostname: string): Promise<LookupAddressEntry[]> {
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+
+  const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+  if (blocked) {
+    throw new BlockedAddressError(`Refusing to connect to private address ${blocked.address} (${hostname})`);
+  }
+
+  return addresses.map(entry => ({ address: entry.address, family: entry.family as AddressFamily }));
+}
+
+// Axios options that apply the checks to the request and every redirect it
+// follows. The lookup runs for the connection itself, so a host that resolves
+// differently the second time (DNS rebinding) is caught too.
+export function publicRequestOptions(protocols: string[] = ['https:']): Pick<AxiosRequestConfig, 'lookup' | 'beforeRedirect'> {
+  return {
+    lookup: async (hostname: string) => [await lookupPublicAddresses(hostname)],
+    beforeRedirect: (options) => {
+      assertPublicUrl(options.href, protocols);
+    }
+  };
+}
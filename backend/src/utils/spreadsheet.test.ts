@@ -0,0 +1,105 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import XLSX from 'xlsx';
+import { parseSpreadsheet, SpreadsheetError } from './spreadsheet.js';
+
+let dir: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spreadsheet-'));
+});
+
+after(async () => {
+  await fs.remove(dir);
+});
+
+async function writeCsv(name: string, text: string): Promise<string> {
+  const filePath = path.join(dir, name);
+  await fs.writeFile(filePath, text);
+  return filePath;
+}
+
+function writeWorkbook(name: string, workbook: XLSX.WorkBook): string {
+  const filePath = path.join(dir, name);
+  XLSX.writeFile(workbook, filePath);
+  return filePath;
+}
+
+test('CSV values are kept as text', async () => {
+  const file = await writeCsv('ids.csv', 'regNo,name\n007,Ada\n12345678901234567890,Alan\n');
+  const parsed = await parseSpreadsheet(file);
+
+  assert.deepEqual(parsed.columns, ['regNo', 'name']);
+  assert.deepEqual(parsed.records, [
+    { regNo: '007', name: 'Ada' },
+    { regNo: '12345678901234567890', name: 'Alan' }
+  ]);
+  assert.equal(parsed.totalRows, 2);
+  assert.equal(parsed.headerRow, 1);
+});
+
+test('the header row is found below title lines and blank rows are skipped', async () => {
+  const file = await writeCsv('titled.csv', 'Class of 2026,,\n,,\nregNo,name,photo\n1,Ada,https://a.example/1\n,,\n2,Alan,\n');
+  const parsed = await parseSpreadsheet(file);
+
+  assert.equal(parsed.headerRow, 3);
+  assert.deepEqual(parsed.records.map(record => record.regNo), ['1', '2']);
+
+  // An explicit header row wins over the guess
+  const forced = await parseSpreadsheet(file, { headerRow: 1 });
+  assert.deepEqual(forced.columns, ['Class of 2026', 'Column B', 'Column C']);
+});
+
+test('duplicate and missing headers get unique names', async () => {
+  const file = await writeCsv('headers.csv', 'Name,,Photo,Photo,\nAda,x,a.jpg,,\n');
+  const parsed = await parseSpreadsheet(file);
+
+  // The empty trailing column is dropped, the one with data is named after its letter
+  assert.deepEqual(parsed.columns, ['Name', 'Column B', 'Photo', 'Photo (2)']);
+  assert.deepEqual(parsed.duplicateHeaders, [{ header: 'Photo', columns: ['C', 'D'], renamedTo: ['Photo', 'Photo (2)'] }]);
+  assert.deepEqual(parsed.records[0], { Name: 'Ada', 'Column B': 'x', Photo: 'a.jpg', 'Photo (2)': '' });
+});
+
+test('workbooks open on the first visible sheet and read link targets', async () => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['notes']]), 'Hidden');
+  const students = XLSX.utils.aoa_to_sheet([['regNo', 'photo'], [20260001, 'View']]);
+  students.B2.l = { Target: 'https://drive.google.com/file/d/abc/view' };
+  XLSX.utils.book_append_sheet(workbook, students, 'Students');
+  workbook.Workbook = { Sheets: [{ Hidden: 1 }, { Hidden: 0 }] };
+  const file = writeWorkbook('students.xlsx', workbook);
+
+  const parsed = await parseSpreadsheet(file);
+  assert.equal(parsed.sheet, 'Students');
+  assert.deepEqual(parsed.sheets, [
+    { name: 'Hidden', rowCount: 1, hidden: true },
+    { name: 'Students', rowCount: 2, hidden: false }
+  ]);
+  assert.deepEqual(parsed.records, [{ regNo: '20260001', photo: 'https://drive.google.com/file/d/abc/view' }]);
+
+  assert.equal((await parseSpreadsheet(file, { sheet: 'Hidden' })).columns[0], 'notes');
+});
+
+test('bad sheet names and header rows are reported as SpreadsheetError', async () => {
+  const file = await writeCsv('small.csv', 'regNo\n1\n');
+
+  await assert.rejects(parseSpreadsheet(file, { sheet: 'Nope' }), (error: Error) => {
+    assert.ok(error instanceof SpreadsheetError);
+    assert.equal(error.statusCode, 400);
+    assert.equal(error.message, 'Sheet "Nope" not found. Available sheets: Sheet1');
+    return true;
+  });
+  await assert.rejects(parseSpreadsheet(file, { headerRow: 5 }), /Header row 5 is past the last row \(2\) of sheet "Sheet1"/);
+});
+
+test('an empty sheet has no records', async () => {
+  const file = await writeCsv('empty.csv', '');
+  const parsed = await parseSpreadsheet(file);
+
+  assert.deepEqual(parsed.records, []);
+  assert.deepEqual(parsed.columns, []);
+  await assert.rejects(parseSpreadsheet(file, { headerRow: 1 }), SpreadsheetError);
+});
@@ -0,0 +1,206 @@
+import fs from 'fs-extra';
+import path from 'path';
+import XLSX from 'xlsx';
+import { ParsedSpreadsheet, SpreadsheetDuplicateHeader, SpreadsheetSheet, StudentRecord } from '../types/index.js';
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.csv'];
+
+// Problems with the uploaded file or the requested sheet/header row
+export class SpreadsheetError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+// What the parser itself returns; the route adds the row and column analysis
+export type SpreadsheetContents = Omit<ParsedSpreadsheet, 'validRows' | 'columnAnalysis' | 'suggestedMapping' | 'suggestedIdColumn'>;
+
+// Rows looked at when guessing the header row
+const HEADER_SEARCH_ROWS = 10;
+
+export async function parseSpreadsheet(
+  filePath: string,
+  options: { sheet?: string; headerRow?: number } = {}
+): Promise<SpreadsheetContents> {
+  const buffer = await fs.readFile(filePath);
+  const isCsv = path.extname(filePath).toLowerCase() === '.csv';
+
+  let workbook: XLSX.WorkBook;
+  try {
+    // CSV values are kept as text, so IDs like "007" keep their leading zeros
+    workbook = XLSX.read(buffer, { type: 'buffer', raw: isCsv, cellDates: true });
+  } catch (error) {
+    throw new SpreadsheetError(`Could not read spreadsheet: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const sheets: SpreadsheetSheet[] = workbook.SheetNames.map((name, index) => {
+    const range = getRange(workbook.Sheets[name]);
+    return {
+      name,
+      rowCount: range ? range.e.r - range.s.r + 1 : 0,
+      hidden: Boolean(workbook.Workbook?.Sheets?.[index]?.Hidden)
+    };
+  });
+
+  if (sheets.length === 0) {
+    throw new SpreadsheetError('Spreadsheet has no sheets');
+  }
+
+  let sheetName: string;
+  if (options.sheet !== undefined) {
+    if (!workbook.SheetNames.includes(options.sheet)) {
+      throw new SpreadsheetError(`Sheet "${options.sheet}" not found. Available sheets: ${workbook.SheetNames.join(', ')}`);
+    }
+    sheetName = options.sheet;
+  } else {
+    // First visible sheet with data
+    sheetName = (sheets.find(sheet => !sheet.hidden && sheet.rowCount > 0) || sheets[0]).name;
+  }
+
+  const worksheet = workbook.Sheets[sheetName];
+  const range = getRange(worksheet);
+  const empty = { records: [], columns: [], totalRows: 0, sheets, sheet: sheetName, duplicateHeaders: [] };
+
+  if (!range) {
+    if (options.headerRow) {
+      throw new SpreadsheetError(`Sheet "${sheetName}" is empty`);
+    }
+    return { ...empty, headerRow: 1 };
+  }
+
+  // Header rows are 1-based like the row numbers shown in Excel
+  let headerIndex: number;
+  if (options.headerRow !== undefined) {
+    headerIndex = options.headerRow - 1;
+    if (headerIndex > range.e.r) {
+      throw new SpreadsheetError(`Header row ${options.headerRow} is past the last row (${range.e.r + 1}) of sheet "${sheetName}"`);
+    }
+  } else {
+    headerIndex = findHeaderRow(worksheet, range);
+  }
+
+  if (isEmptyRow(worksheet, headerIndex, range)) {
+    if (options.headerRow !== undefined) {
+      throw new SpreadsheetError(`Header row ${options.headerRow} of sheet "${sheetName}" is empty`);
+    }
+    return { ...empty, headerRow: headerIndex + 1 };
+  }
+
+  // Map sheet columns to unique header names
+  const columns: Array<{ index: number; name: string }> = [];
+  const headerColumns = new Map<string, string[]>();
+  const usedNames = new Set<string>();
+
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const letter = XLSX.utils.encode_col(c);
+    let header = cellText(worksheet[XLSX.utils.encode_cell({ r: headerIndex, c })]).replace(/\s+/g, ' ');
+
+    if (!header) {
+      if (isEmptyColumn(worksheet, c, headerIndex + 1, range.e.r)) continue;
+      header = `Column ${letter}`;
+    }
+
+    let name = header;
+    for (let n = 2; usedNames.has(name); n++) {
+      name = `${header} (${n})`;
+    }
+    usedNames.add(name);
+    columns.push({ index: c, name });
+    headerColumns.set(header, [...(headerColumns.get(header) || []), letter]);
+  }
+
+  const duplicateHeaders: SpreadsheetDuplicateHeader[] = [];
+  for (const [header, letters] of headerColumns) {
+    if (letters.length < 2) continue;
+    duplicateHeaders.push({
+      header,
+      columns: letters,
+      renamedTo: columns
+        .filter(column => letters.includes(XLSX.utils.encode_col(column.index)))
+        .map(column => column.name)
+    });
+  }
+
+  const records: StudentRecord[] = [];
+  for (let r = headerIndex + 1; r <= range.e.r; r++) {
+    if (isEmptyRow(worksheet, r, range)) continue;
+
+    const record: StudentRecord = {};
+    for (const column of columns) {
+      record[column.name] = cellText(worksheet[XLSX.utils.encode_cell({ r, c: column.index })], true);
+    }
+    records.push(record);
+  }
+
+  return {
+    records,
+    columns: columns.map(column => column.name),
+    totalRows: records.length,
+    sheets,
+    sheet: sheetName,
+    headerRow: headerIndex + 1,
+    duplicateHeaders
+  };
+}
+
+function getRange(worksheet: XLSX.WorkSheet | undefined): XLSX.Range | null {
+  const ref = worksheet?.['!ref'];
+  return ref ? XLSX.utils.decode_range(ref) : null;
+}
+
+function cellText(cell: XLSX.CellObject | undefined, preferLink = false): string {
+  if (!cell) return '';
+
+  // A linked cell often shows a label like "View"; the URL is what gets downloaded
+  const target = cell.l?.Target;
+  if (preferLink && target && /^https?:\/\//i.test(target)) {
+    return target.trim();
+  }
+
+  if (cell.v === undefined || cell.v === null) return '';
+  // Raw numbers, so long IDs are not shown in scientific notation
+  if (cell.t === 'n') return String(cell.v);
+  if (cell.v instanceof Date) return cell.w ?? cell.v.toISOString();
+  return String(cell.w ?? cell.v).trim();
+}
+
+// Title lines above the table usually fill fewer cells than the header,
+// so take the fullest of the first non-empty rows
+function findHeaderRow(worksheet: XLSX.WorkSheet, range: XLSX.Range): number {
+  let best = range.s.r;
+  let bestCount = 0;
+  let seen = 0;
+
+  for (let r = range.s.r; r <= range.e.r && seen < HEADER_SEARCH_ROWS; r++) {
+    let count = 0;
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      if (cellText(worksheet[XLSX.utils.encode_cell({ r, c })])) count++;
+    }
+    if (count === 0) continue;
+
+    seen++;
+    if (count > bestCount) {
+      best = r;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+function isEmptyRow(worksheet: XLSX.WorkSheet, r: number, range: XLSX.Range): boolean {
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    if (cellText(worksheet[XLSX.utils.encode_cell({ r, c })])) return false;
+  }
+  return true;
+}
+
+function isEmptyColumn(worksheet: XLSX.WorkSheet, c: number, fromRow: number, toRow: number): boolean {
+  for (let r = fromRow; r <= toRow; r++) {
+    if (cellText(worksheet[XLSX.utils.encode_cell({ r, c })])) return false;
+  }
+  return true;
+}
@@ -0,0 +1,47 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createThroughputTracker } from './throughput.js';
+
+test('rates follow the last ten seconds and give an ETA', (t) => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  t.after(() => mock.timers.reset());
+
+  const tracker = createThroughputTracker(100);
+
+  // 2 items and 2 MB a second for 20 seconds, in many small chunks
+  for (let second = 1; second <= 20; second++) {
+    for (let chunk = 0; chunk < 8; chunk++) {
+      mock.timers.tick(125);
+      tracker.addBytes(128 * 1024);
+      if (chunk % 4 === 3) tracker.completeItem(0);
+    }
+  }
+
+  const fast = tracker.stats();
+  assert.equal(fast.elapsedSeconds, 20);
+  assert.equal(fast.bytesProcessed, 20 * 1024 * 1024);
+  assert.ok(Math.abs(fast.itemsPerSecond - 2) < 0.15, String(fast.itemsPerSecond));
+  assert.ok(Math.abs(fast.etaSeconds - 30) < 2, String(fast.etaSeconds));
+
+  // One item a second from here on: after a full window the rate has halved
+  for (let second = 1; second <= 12; second++) {
+    mock.timers.tick(1000);
+    tracker.completeItem(1024);
+  }
+
+  const slow = tracker.stats();
+  assert.ok(Math.abs(slow.itemsPerSecond - 1) < 0.15, String(slow.itemsPerSecond));
+  assert.ok(slow.bytesPerSecond < 2048, String(slow.bytesPerSecond));
+});
+
+test('a finished job has no time left', (t) => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  t.after(() => mock.timers.reset());
+
+  const tracker = createThroughputTracker(1);
+  assert.equal(tracker.stats().etaSeconds, null);
+
+  mock.timers.tick(500);
+  tracker.completeItem(10);
+  assert.equal(tracker.stats().etaSeconds, 0);
+});
@@ -0,0 +1,74 @@
+import { JobThroughput } from '../types/index.js';
+
+// Rates are averaged over this trailing window, so they follow slowdowns
+// (e.g. throttled downloads) instead of averaging over the whole job
+const RATE_WINDOW_MS = parseInt(process.env.PROGRESS_RATE_WINDOW_MS || '10000');
+// At most one sample per interval, however many chunks arrive; the totals
+// themselves are always current
+const SAMPLE_INTERVAL_MS = 250;
+
+interface Sample {
+  time: number;
+  items: number;
+  bytes: number;
+}
+
+export interface ThroughputTracker {
+  addBytes: (bytes: number) => void;
+  completeItem: (bytes?: number) => void;
+  stats: () => JobThroughput;
+}
+
+export function createThroughputTracker(total: number): ThroughputTracker {
+  const startTime = Date.now();
+  let items = 0;
+  let bytes = 0;
+  const samples: Sample[] = [{ time: startTime, items: 0, bytes: 0 }];
+
+  const record = () => {
+    const now = Date.now();
+    if (now - samples[samples.length - 1].time < SAMPLE_INTERVAL_MS) return;
+    samples.push({ time: now, items, bytes });
+
+    // Keep one sample at or before the window start as the baseline
+    const windowStart = now - RATE_WINDOW_MS;
+    while (samples.length > 1 && samples[1].time <= windowStart) {
+      samples.shift();
+    }
+  };
+
+  return {
+    addBytes: (count: number) => {
+      if (count <= 0) return;
+      bytes += count;
+      record();
+    },
+
+    completeItem: (count = 0) => {
+      items++;
+      bytes += Math.max(count, 0);
+      record();
+    },
+
+    stats: () => {
+      const now = Date.now();
+      const baseline = samples[0];
+      const seconds = Math.max(now - baseline.time, 1) / 1000;
+      const itemsPerSecond = (items - baseline.items) / seconds;
+      const bytesPerSecond = (bytes - baseline.bytes) / seconds;
+      const remaining = Math.max(total - items, 0);
+
+      return {
+        elapsedSeconds: round((now - startTime) / 1000),
+        bytesProcessed: bytes,
+        itemsPerSecond: round(itemsPerSecond),
+        bytesPerSecond: Math.round(bytesPerSecond),
+        etaSeconds: remaining === 0 ? 0 : itemsPerSecond > 0 ? round(remaining / itemsPerSecond) : null
+      };
+    }
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
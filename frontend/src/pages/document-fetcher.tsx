@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -19,43 +19,66 @@ import {
   Settings,
 } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
-import { cn, formatBytes } from '@/lib/utils'
+import { cn, formatBytes, formatDuration, formatSpeed } from '@/lib/utils'
 import { useDropzone } from 'react-dropzone'
 import { io, Socket } from 'socket.io-client'
+import type {
+  ClientToServerEvents,
+  DocumentFetcherDownloadProgressEvent,
+  DocumentFetcherResult,
+  DocumentFetchFailureReason,
+  JobThroughput,
+  ParsedSpreadsheet,
+  ServerToClientEvents,
+  SpreadsheetColumnAnalysis,
+} from '@backend/types/index'
+
+type ProcessingResult = DocumentFetcherResult
+
+const LINK_KIND_LABELS: Partial<Record<SpreadsheetColumnAnalysis['kind'], string>> = {
+  'drive-link': 'Google links',
+  'file-link': 'File links',
+  url: 'Web pages'
+}
 
-interface ProcessingResult {
-  regNo: string
-  column: string
-  status: 'success' | 'failed' | 'skipped'
-  message: string
-  filePath?: string
-  fileName?: string
-  fileSize?: number
+// What the user can do about each kind of failed download
+const FAILURE_REASON_HINTS: Record<DocumentFetchFailureReason, string> = {
+  'permission-denied': 'Not shared publicly — set sharing to "Anyone with the link"',
+  'not-found': 'File was deleted or the link is wrong',
+  'quota-exceeded': 'Provider download limit reached — retry later',
+  'needs-confirmation': 'Provider asked for a confirmation that could not be completed',
+  'unexpected-html': 'Link opened a web page instead of a file'
 }
+type JobSocket = Socket<ServerToClientEvents, ClientToServerEvents>
 
 interface ProcessingConfig {
   maxConcurrent: number
   timeout: number
   autoOrganize: boolean
+  fileNameTemplate: string
 }
 
 export function DocumentFetcher() {
   const navigate = useNavigate()
   const { toast } = useToast()
   
-  const [socket, setSocket] = useState<Socket | null>(null)
+  const [socket, setSocket] = useState<JobSocket | null>(null)
   const [socketConnected, setSocketConnected] = useState(false)
   const [file, setFile] = useState<File | null>(null)
   const [data, setData] = useState<any[]>([])
   const [columns, setColumns] = useState<string[]>([])
   const [validRows, setValidRows] = useState(0)
+  const [columnAnalysis, setColumnAnalysis] = useState<SpreadsheetColumnAnalysis[]>([])
+  const [columnMapping, setColumnMapping] = useState<Record<string, string>>({})
+  const [idColumn, setIdColumn] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string>('')
   const [showConfig, setShowConfig] = useState(false)
   const [config, setConfig] = useState<ProcessingConfig>({
     maxConcurrent: 20,
     timeout: 30,
-    autoOrganize: true
+    autoOrganize: true,
+    fileNameTemplate: ''
   })
   
   // Processing state
@@ -64,21 +87,40 @@ export function DocumentFetcher() {
   const [current, setCurrent] = useState(0)
   const [total, setTotal] = useState(0)
   const [results, setResults] = useState<ProcessingResult[]>([])
+  const [throughput, setThroughput] = useState<JobThroughput | null>(null)
+  // Files being downloaded right now, keyed by record and column
+  const [transfers, setTransfers] = useState<Record<string, DocumentFetcherDownloadProgressEvent>>({})
   const [jobId, setJobId] = useState<string | null>(null)
+  const [jobToken, setJobToken] = useState<string | null>(null)
+  const jobRef = useRef<{ jobId: string; token: string } | null>(null)
+  const lastSeqRef = useRef(0)
   const [isZipReady, setIsZipReady] = useState(false)
 
   // Socket.IO connection
   useEffect(() => {
-    const newSocket = io({
+    const newSocket: JobSocket = io({
       transports: ['websocket', 'polling'],
       timeout: 20000,
       forceNew: true
     })
     setSocket(newSocket)
 
+    // Skip events that were already applied, e.g. replays after a reconnect
+    const isNewEvent = (data: { seq?: number }) => {
+      if (data.seq === undefined) return true
+      if (data.seq <= lastSeqRef.current) return false
+      lastSeqRef.current = data.seq
+      return true
+    }
+
     newSocket.on('connect', () => {
       console.log('✅ Socket.IO connected:', newSocket.id)
       setSocketConnected(true)
+
+      // Rejoin the running job and catch up on the events missed while disconnected
+      if (jobRef.current) {
+        newSocket.emit('join:job', { ...jobRef.current, lastSeq: lastSeqRef.current })
+      }
     })
 
     newSocket.on('disconnect', (reason) => {
@@ -92,7 +134,27 @@ export function DocumentFetcher() {
       setError('Unable to connect to server. Please check if the backend is running.')
     })
 
+    newSocket.on('join:job:error', (data) => {
+      console.error('❌ Could not join job room:', data)
+      setError(data.error)
+    })
+
+    newSocket.on('job:snapshot', (data) => {
+      console.log('🧾 Job snapshot:', data)
+      if (!data.truncated || !data.job) return
+
+      // Too many events were missed to replay them, so take the state from the snapshot
+      lastSeqRef.current = data.seq
+      setResults(data.job.results as ProcessingResult[])
+      setCurrent(data.job.current)
+      setTotal(data.job.total)
+      setProgress(data.job.progress)
+      setIsProcessing(['pending', 'queued', 'processing'].includes(data.job.status))
+      setIsZipReady(data.job.status === 'completed')
+    })
+
     newSocket.on('document-fetcher:start', (data) => {
+      if (!isNewEvent(data)) return
       console.log('🎯 Processing started:', data)
       setJobId(data.jobId)
       setTotal(data.downloadTasks || data.totalRecords)
@@ -101,33 +163,82 @@ export function DocumentFetcher() {
       setResults([])
       setCurrent(0)
       setProgress(0)
+      setThroughput(null)
+      setTransfers({})
+    })
+
+    const endTransfer = (data: { regNo: string; column: string }) => {
+      setTransfers(prev => {
+        const { [`${data.regNo}:${data.column}`]: _ended, ...rest } = prev
+        return rest
+      })
+    }
+
+    // Sent without a sequence number and not replayed, so no isNewEvent check
+    newSocket.on('document-fetcher:download-progress', (data) => {
+      setTransfers(prev => ({ ...prev, [`${data.regNo}:${data.column}`]: data }))
     })
+    newSocket.on('document-fetcher:download-complete', endTransfer)
+    newSocket.on('document-fetcher:download-error', endTransfer)
+    // The next attempt starts from zero
+    newSocket.on('document-fetcher:download-retry', endTransfer)
 
     newSocket.on('document-fetcher:progress', (data) => {
+      if (!isNewEvent(data)) return
       console.log('📈 Processing progress:', data)
       setCurrent(data.current)
       setTotal(data.total)
       setProgress(Math.min(data.progress || (data.current / data.total) * 100, 100))
+      if (data.elapsedSeconds !== undefined) {
+        setThroughput({
+          elapsedSeconds: data.elapsedSeconds,
+          bytesProcessed: data.bytesProcessed ?? 0,
+          itemsPerSecond: data.itemsPerSecond ?? 0,
+          bytesPerSecond: data.bytesPerSecond ?? 0,
+          etaSeconds: data.etaSeconds ?? null,
+        })
+      }
       
-      if (data.result) {
-        setResults(prev => [...prev, data.result])
+      const { result } = data
+      if (result) {
+        setResults(prev => [...prev, result])
       }
     })
 
     newSocket.on('document-fetcher:complete', (data) => {
+      if (!isNewEvent(data)) return
       console.log('✅ Processing complete:', data)
       setIsProcessing(false)
       setProgress(100)
-      setCurrent(data.totalProcessed || data.total)
+      setCurrent(data.totalProcessed)
       setIsZipReady(true)
+      setTransfers({})
+
+      const violations = Object.entries(data.violations)
+        .map(([column, summary]) => `${column}: ${summary.files}`)
       
       toast({
         title: "Processing Complete",
-        description: `Successfully processed ${data.totalProcessed} documents`,
+        description: `Successfully processed ${data.totalProcessed} documents (${formatBytes(data.bytesProcessed)}) in ${formatDuration(data.elapsedSeconds)}` +
+          (violations.length ? `. Files breaking column rules — ${violations.join(', ')}` : ''),
+      })
+    })
+
+    newSocket.on('document-fetcher:cancelled', (data) => {
+      if (!isNewEvent(data)) return
+      console.log('⏹️ Processing cancelled:', data)
+      setIsProcessing(false)
+      setIsZipReady(Boolean(data.zipPath))
+      setTransfers({})
+
+      toast({
+        title: "Processing Cancelled",
+        description: `${data.totalProcessed} documents were processed before cancelling`,
       })
     })
 
     newSocket.on('document-fetcher:error', (data) => {
+      if (!isNewEvent(data)) return
       console.log('❌ Processing error:', data)
       setError(data.error)
       setIsProcessing(false)
@@ -198,9 +309,16 @@ export function DocumentFetcher() {
       setTotal(result.data.totalRows)
       setValidRows(result.data.validRows)
       
+      const parsed: ParsedSpreadsheet = result.data
+      setColumnAnalysis(parsed.columnAnalysis)
+      setColumnMapping(parsed.suggestedMapping)
+      setIdColumn(parsed.suggestedIdColumn || '')
+      const duplicates = parsed.duplicateHeaders.map(duplicate => `"${duplicate.header}" (columns ${duplicate.columns.join(', ')})`)
+
       toast({
         title: "File Parsed Successfully",
-        description: `Found ${result.data.validRows} valid records with ${result.data.columns.length} columns`,
+        description: `Found ${parsed.validRows} valid records with ${parsed.columns.length} columns in sheet "${parsed.sheet}"` +
+          (duplicates.length ? `. Duplicate headers were renamed: ${duplicates.join(', ')}` : ''),
       })
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to parse file'
@@ -240,7 +358,12 @@ export function DocumentFetcher() {
         },
         body: JSON.stringify({
           data,
-          config
+          config: {
+            ...config,
+            columnMapping,
+            idColumn: idColumn || undefined,
+            fileNameTemplate: config.fileNameTemplate.trim() || undefined
+          }
         }),
       })
 
@@ -260,6 +383,13 @@ export function DocumentFetcher() {
       }
 
       setJobId(result.data.jobId)
+      setJobToken(result.data.accessToken)
+
+      // Job events are only sent to clients that join the job with its access token.
+      // Events sent before the join are replayed by the server.
+      jobRef.current = { jobId: result.data.jobId, token: result.data.accessToken }
+      lastSeqRef.current = 0
+      socket.emit('join:job', { ...jobRef.current, lastSeq: 0 })
       
       toast({
         title: "Processing Started",
@@ -277,11 +407,25 @@ export function DocumentFetcher() {
     }
   }
 
+  const handleCancel = () => {
+    if (!socket || !jobId) return
+
+    socket.emit('job:cancel', jobId, (response) => {
+      if (!response.success) {
+        toast({
+          title: "Cancel Failed",
+          description: response.error || 'The job could not be cancelled',
+          variant: "destructive",
+        })
+      }
+    })
+  }
+
   const handleDownloadZip = async () => {
-    if (!jobId) return
+    if (!jobId || !jobToken) return
 
     try {
-      const downloadUrl = `/api/document-fetcher/download/${jobId}`
+      const downloadUrl = `/api/document-fetcher/download/${jobId}?token=${encodeURIComponent(jobToken)}`
       const link = document.createElement('a')
       link.href = downloadUrl
       link.download = `documents_${jobId}.zip`
@@ -302,10 +446,25 @@ export function DocumentFetcher() {
     }
   }
 
+  const toggleColumn = (analysis: SpreadsheetColumnAnalysis, enabled: boolean) => {
+    setColumnMapping(prev => {
+      const next = { ...prev }
+      if (enabled) {
+        next[analysis.column] = analysis.folderName || analysis.column
+      } else {
+        delete next[analysis.column]
+      }
+      return next
+    })
+  }
+
   const handleReset = () => {
     setFile(null)
     setData([])
     setColumns([])
+    setColumnAnalysis([])
+    setColumnMapping({})
+    setIdColumn('')
     setTotal(0)
     setValidRows(0)
     setError('')
@@ -314,7 +473,11 @@ export function DocumentFetcher() {
     setCurrent(0)
     setTotal(0)
     setResults([])
+    setThroughput(null)
     setJobId(null)
+    setJobToken(null)
+    jobRef.current = null
+    lastSeqRef.current = 0
     setIsZipReady(false)
   }
 
@@ -322,6 +485,8 @@ export function DocumentFetcher() {
     switch (status) {
       case 'success':
         return <CheckCircle className="w-4 h-4 text-green-500" />
+      case 'warning':
+        return <AlertTriangle className="w-4 h-4 text-orange-500" />
       case 'failed':
         return <XCircle className="w-4 h-4 text-red-500" />
       case 'skipped':
@@ -333,6 +498,8 @@ export function DocumentFetcher() {
     switch (status) {
       case 'success':
         return <Badge variant="success" className="text-xs">Success</Badge>
+      case 'warning':
+        return <Badge variant="warning" className="text-xs">Warning</Badge>
       case 'failed':
         return <Badge variant="destructive" className="text-xs">Failed</Badge>
       case 'skipped':
@@ -342,6 +509,7 @@ export function DocumentFetcher() {
 
   const successCount = results.filter(r => r.status === 'success').length
   const failedCount = results.filter(r => r.status === 'failed').length
+  const warningCount = results.filter(r => r.status === 'warning').length
   const skippedCount = results.filter(r => r.status === 'skipped').length
 
   return (
@@ -369,7 +537,7 @@ export function DocumentFetcher() {
               </div>
             </div>
             <p className="text-muted-foreground">
-              Batch download documents from Google Drive links in Excel files
+              Batch download documents from Google Drive, Dropbox, OneDrive and web links in Excel files
             </p>
           </div>
         </div>
@@ -413,6 +581,18 @@ export function DocumentFetcher() {
                 />
               </div>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="fileNameTemplate">File Name Template</Label>
+              <Input
+                id="fileNameTemplate"
+                placeholder="{id}_{column}"
+                value={config.fileNameTemplate}
+                onChange={(e) => setConfig(prev => ({ ...prev, fileNameTemplate: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Use any column name in braces, e.g. {'{Name}_{Roll Number}_{column}'}. Also available: {'{id}'}, {'{column}'}, {'{folder}'}, {'{row}'}
+              </p>
+            </div>
           </CardContent>
         </Card>
       )}
@@ -452,7 +632,7 @@ export function DocumentFetcher() {
                     Drag & drop your Excel file (.xlsx, .xls) or click to browse
                   </p>
                   <p className="text-sm text-muted-foreground">
-                    File should contain: Registration numbers and Google Drive links
+                    File should contain: Registration numbers and document links (Google Drive, Docs, Dropbox, OneDrive or direct URLs)
                   </p>
                 </div>
                 
@@ -500,7 +680,7 @@ export function DocumentFetcher() {
                 </Button>
                 <Button 
                   onClick={handleProcess} 
-                  disabled={!data.length || !socketConnected}
+                  disabled={!data.length || !socketConnected || Object.keys(columnMapping).length === 0}
                   title={!socketConnected ? "Waiting for Socket.IO connection..." : ""}
                 >
                   <Download className="w-4 h-4 mr-2" />
@@ -509,6 +689,63 @@ export function DocumentFetcher() {
               </div>
             </div>
 
+            {columns.length > 0 && (
+              <div className="flex items-center gap-3">
+                <Label htmlFor="idColumn">ID Column</Label>
+                <select
+                  id="idColumn"
+                  className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                  value={idColumn}
+                  onChange={(e) => setIdColumn(e.target.value)}
+                >
+                  <option value="">Reg No (default)</option>
+                  {columns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {columnAnalysis.some(analysis => analysis.kind !== 'identifier' && analysis.kind !== 'text' && analysis.kind !== 'empty') && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Columns to Download:</h4>
+                <div className="space-y-2">
+                  {columnAnalysis
+                    .filter(analysis => analysis.kind !== 'identifier' && analysis.kind !== 'text' && analysis.kind !== 'empty')
+                    .map(analysis => {
+                      const enabled = analysis.column in columnMapping
+                      return (
+                        <div key={analysis.column} className="flex items-center gap-3">
+                          <input
+                            type="checkbox"
+                            id={`column-${analysis.column}`}
+                            checked={enabled}
+                            disabled={analysis.validLinks === 0}
+                            onChange={(e) => toggleColumn(analysis, e.target.checked)}
+                          />
+                          <Label htmlFor={`column-${analysis.column}`} className="w-48 truncate">
+                            {analysis.column}
+                          </Label>
+                          <Badge variant={analysis.kind === 'url' ? 'secondary' : 'default'}>
+                            {LINK_KIND_LABELS[analysis.kind]}
+                          </Badge>
+                          <span className="text-xs text-muted-foreground w-32">
+                            {Math.round(analysis.validLinkRatio * 100)}% valid of {analysis.filled}
+                          </span>
+                          <Input
+                            className="h-8 max-w-xs"
+                            value={columnMapping[analysis.column] ?? analysis.folderName ?? ''}
+                            disabled={!enabled}
+                            onChange={(e) => setColumnMapping(prev => ({ ...prev, [analysis.column]: e.target.value }))}
+                            placeholder="Folder name"
+                          />
+                        </div>
+                      )
+                    })}
+                </div>
+              </div>
+            )}
+
             {data.length > 0 && (
               <div className="space-y-2">
                 <h4 className="font-medium">Sample Data:</h4>
@@ -542,13 +779,45 @@ export function DocumentFetcher() {
               <div className="text-center text-sm text-muted-foreground">
                 {current} of {total} documents processed
               </div>
+              {throughput && (
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>{formatBytes(throughput.bytesProcessed)} at {formatSpeed(throughput.bytesPerSecond)}</span>
+                  <span>{throughput.itemsPerSecond.toFixed(1)} docs/s</span>
+                  <span>
+                    {throughput.etaSeconds === null ? 'Estimating…' : `${formatDuration(throughput.etaSeconds)} remaining`}
+                  </span>
+                </div>
+              )}
             </div>
 
-            <div className="grid grid-cols-3 gap-4">
+            {Object.keys(transfers).length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Downloading</div>
+                {Object.entries(transfers).map(([key, transfer]) => (
+                  <div key={key} className="space-y-1">
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span className="truncate">{transfer.regNo} – {transfer.column}</span>
+                      <span>
+                        {formatBytes(transfer.bytesReceived)}
+                        {transfer.totalBytes !== null && ` of ${formatBytes(transfer.totalBytes)}`}
+                        {' '}at {formatSpeed(transfer.bytesPerSecond)}
+                      </span>
+                    </div>
+                    {transfer.percent !== null && <Progress value={transfer.percent} className="w-full h-1" />}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-4 gap-4">
               <div className="text-center p-3 bg-green-50 rounded-lg">
                 <div className="text-2xl font-bold text-green-600">{successCount}</div>
                 <div className="text-sm text-green-700">Success</div>
               </div>
+              <div className="text-center p-3 bg-orange-50 rounded-lg">
+                <div className="text-2xl font-bold text-orange-600">{warningCount}</div>
+                <div className="text-sm text-orange-700">Warnings</div>
+              </div>
               <div className="text-center p-3 bg-red-50 rounded-lg">
                 <div className="text-2xl font-bold text-red-600">{failedCount}</div>
                 <div className="text-sm text-red-700">Failed</div>
@@ -558,6 +827,13 @@ export function DocumentFetcher() {
                 <div className="text-sm text-yellow-700">Skipped</div>
               </div>
             </div>
+
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={handleCancel} disabled={!jobId}>
+                <XCircle className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
           </CardContent>
         </Card>
       )}
@@ -581,6 +857,15 @@ export function DocumentFetcher() {
                       <p className="font-medium">{result.regNo}</p>
                       <p className="text-sm text-muted-foreground">{result.column}</p>
                       <p className="text-xs text-muted-foreground">{result.message}</p>
+                      {result.failureReason && (
+                        <p className="text-xs text-red-600">{FAILURE_REASON_HINTS[result.failureReason]}</p>
+                      )}
+                      {result.warnings?.map((warning) => (
+                        <p key={warning.violation} className="text-xs text-orange-600">{warning.message}</p>
+                      ))}
+                      {result.duplicateOf && (
+                        <p className="text-xs text-yellow-700">Same file as {result.duplicateOf}</p>
+                      )}
                     </div>
                   </div>
                   {getStatusBadge(result.status)}